@@ -72,4 +72,9 @@ export default defineConfig([
     plugins: { js },
     extends: ['js/recommended'],
   },
+  {
+    // Tests are left out of the tsconfig projects, so they are linted without type information
+    files: ['**/*.test.ts'],
+    extends: [tseslint.configs.disableTypeChecked],
+  },
 ]);
@@ -1,102 +1,109 @@
 import React, { useState, useEffect } from 'react';
 import { GameBoard } from './components/GameBoard';
 import { GameResults } from './components/GameResults';
-
-interface Impostor {
-  id: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  found: boolean;
-}
-
-interface GameState {
-  phase: 'menu' | 'playing' | 'ended';
-  timeLeft: number;
-  score: number;
-  impostors: Impostor[];
-  startTime?: number;
-  endTime?: number;
-}
+import { OnlineGame } from './OnlineGame';
+import { generateSeed } from '../shared/random';
+import { hitsImpostor } from '../shared/geometry';
+import { getLedgerTotal, getStreakAfter, scoreEvent } from '../shared/scoring';
+import { Impostor, SoloGameState } from '../shared/types/game';
+import { ScenePoint } from '../shared/types/geometry';
+import { ScoreEvent } from '../shared/types/scoring';
 
 const GAME_TIME = 120; // 2 minutes
+const MISS_PENALTY = 25;
+// Boxes in scene percentages, anchored top-left (see shared/types/geometry)
 const IMPOSTORS: Omit<Impostor, 'found'>[] = [
-  { id: '1', x: 15, y: 25, width: 40, height: 40 },
-  { id: '2', x: 65, y: 45, width: 35, height: 35 },
-  { id: '3', x: 40, y: 70, width: 30, height: 30 },
+  { id: '1', x: 15, y: 25, width: 8, height: 12, difficulty: 'easy' },
+  { id: '2', x: 65, y: 45, width: 7, height: 11, difficulty: 'medium' },
+  { id: '3', x: 40, y: 70, width: 6, height: 9, difficulty: 'hard' },
 ];
 
 export const Game: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>({
-    phase: 'menu',
+  const [online, setOnline] = useState(false);
+  const [lastFind, setLastFind] = useState<{ found: boolean; penalty: number; at: number } | null>(null);
+  const [gameState, setGameState] = useState<SoloGameState>({
+    phase: 'waiting',
+    seed: generateSeed(),
     timeLeft: GAME_TIME,
     score: 0,
+    ledger: [],
+    streak: 0,
+    misses: 0,
     impostors: IMPOSTORS.map(imp => ({ ...imp, found: false })),
   });
 
   const startGame = () => {
+    setLastFind(null);
     setGameState({
       phase: 'playing',
+      seed: generateSeed(),
       timeLeft: GAME_TIME,
       score: 0,
+      ledger: [],
+      streak: 0,
+      misses: 0,
       impostors: IMPOSTORS.map(imp => ({ ...imp, found: false })),
       startTime: Date.now(),
     });
   };
 
-  const findImpostor = (clickX: number, clickY: number) => {
+  // Same rules as online rounds, so a solo score means the same thing
+  const applyScore = (event: ScoreEvent) => {
+    const entries = scoreEvent(event, {
+      startedAt: gameState.startTime ?? event.at,
+      timeLimit: GAME_TIME,
+      missPenalty: MISS_PENALTY,
+      score: gameState.score,
+      streak: gameState.streak,
+    });
+    return {
+      score: gameState.score + getLedgerTotal(entries),
+      ledger: [...gameState.ledger, ...entries],
+      streak: getStreakAfter(event, gameState.streak),
+    };
+  };
+
+  const findImpostor = (point: ScenePoint) => {
     if (gameState.phase !== 'playing') return;
 
-    const foundImpostor = gameState.impostors.find(imp => {
-      if (imp.found) return false;
-      return clickX >= imp.x && clickX <= imp.x + imp.width &&
-             clickY >= imp.y && clickY <= imp.y + imp.height;
-    });
+    const hits = gameState.impostors.filter(imp => hitsImpostor(imp, point));
+    const foundImpostor = hits.find(imp => !imp.found);
+
+    if (!foundImpostor) {
+      // Clicking an impostor that was already caught is not a miss
+      if (hits.length > 0) return;
 
-    if (foundImpostor) {
-      const newImpostors = gameState.impostors.map(imp =>
-        imp.id === foundImpostor.id ? { ...imp, found: true } : imp
-      );
-      
-      const newScore = gameState.score + 100;
-      const allFound = newImpostors.every(imp => imp.found);
-
-      if (allFound) {
-        const finalTime = Date.now();
-        const timeBonus = Math.max(0, gameState.timeLeft * 10);
-        const finalScore = newScore + timeBonus;
-        
-        // Save to localStorage
-        const gameResult = {
-          score: finalScore,
-          time: GAME_TIME - gameState.timeLeft,
-          completedAt: finalTime,
-        };
-        localStorage.setItem('lastGameResult', JSON.stringify(gameResult));
-
-        setGameState(prev => ({
-          ...prev,
-          phase: 'ended',
-          score: finalScore,
-          impostors: newImpostors,
-          endTime: finalTime,
-        }));
-      } else {
-        setGameState(prev => ({
-          ...prev,
-          score: newScore,
-          impostors: newImpostors,
-        }));
-      }
+      const scored = applyScore({ kind: 'miss', at: Date.now() });
+      setLastFind({ found: false, penalty: gameState.score - scored.score, at: Date.now() });
+      setGameState(prev => ({ ...prev, ...scored, misses: prev.misses + 1 }));
+      return;
     }
+
+    setLastFind({ found: true, penalty: 0, at: Date.now() });
+
+    const newImpostors = gameState.impostors.map(imp =>
+      imp.id === foundImpostor.id ? { ...imp, found: true } : imp
+    );
+    const scored = applyScore({ kind: 'find', at: Date.now(), difficulty: foundImpostor.difficulty, firstFinder: false });
+    const allFound = newImpostors.every(imp => imp.found);
+
+    setGameState(prev => ({
+      ...prev,
+      ...scored,
+      impostors: newImpostors,
+      ...(allFound && { phase: 'ended', endTime: Date.now() }),
+    }));
   };
 
   const playAgain = () => {
     setGameState({
-      phase: 'menu',
+      phase: 'waiting',
+      seed: generateSeed(),
       timeLeft: GAME_TIME,
       score: 0,
+      ledger: [],
+      streak: 0,
+      misses: 0,
       impostors: IMPOSTORS.map(imp => ({ ...imp, found: false })),
     });
   };
@@ -111,13 +118,6 @@ export const Game: React.FC = () => {
           const newTimeLeft = prev.timeLeft - 1;
           if (newTimeLeft <= 0) {
             // Time's up
-            const gameResult = {
-              score: prev.score,
-              time: GAME_TIME,
-              completedAt: Date.now(),
-            };
-            localStorage.setItem('lastGameResult', JSON.stringify(gameResult));
-            
             return {
               ...prev,
               phase: 'ended',
@@ -135,7 +135,11 @@ export const Game: React.FC = () => {
     };
   }, [gameState.phase, gameState.timeLeft]);
 
-  if (gameState.phase === 'menu') {
+  if (online) {
+    return <OnlineGame onLeave={() => setOnline(false)} />;
+  }
+
+  if (gameState.phase === 'waiting') {
     return (
       <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
         <div className="max-w-md w-full bg-gray-800/90 backdrop-blur-sm rounded-xl p-8 shadow-2xl border border-gray-700">
@@ -157,7 +161,7 @@ export const Game: React.FC = () => {
             
             <div className="bg-gray-700/50 rounded-lg p-4">
               <h3 className="text-yellow-400 font-bold mb-2">🏆 Scoring</h3>
-              <p className="text-sm text-gray-300">100 points per impostor + time bonus!</p>
+              <p className="text-sm text-gray-300">10, 25 or 50 points by difficulty, bonuses for speed and streaks, {MISS_PENALTY} lost per miss!</p>
             </div>
           </div>
           
@@ -167,6 +171,13 @@ export const Game: React.FC = () => {
           >
             🚀 START HUNTING
           </button>
+
+          <button
+            onClick={() => setOnline(true)}
+            className="w-full mt-4 py-4 px-6 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 rounded-lg font-bold text-lg transition-all duration-200 transform hover:scale-105 shadow-lg"
+          >
+            🌐 PLAY ONLINE
+          </button>
         </div>
       </div>
     );
@@ -176,6 +187,7 @@ export const Game: React.FC = () => {
     return (
       <GameBoard
         gameState={gameState}
+        lastFind={lastFind}
         onFindImpostor={findImpostor}
       />
     );
@@ -0,0 +1,175 @@
+import React, { useEffect, useRef } from 'react';
+import { GameLobby } from './components/GameLobby';
+import { LiveRegion } from './components/LiveRegion';
+import { OnlineGameBoard } from './components/OnlineGameBoard';
+import { OnlineGameResults } from './components/OnlineGameResults';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { useOnlineGame } from './hooks/useOnlineGame';
+
+const TIME_WARNINGS = [60, 30, 10]; // Seconds left worth reading out
+const QUARTER_NAMES = ['top left', 'top right', 'bottom left', 'bottom right'];
+
+interface OnlineGameProps {
+  onLeave: () => void;
+}
+
+export const OnlineGame: React.FC<OnlineGameProps> = ({ onLeave }) => {
+  const {
+    gameState,
+    currentPlayer,
+    currentSpectator,
+    error,
+    lastFind,
+    coolingDown,
+    powerUpEffect,
+    activatePowerUp,
+    joinGame,
+    spectate,
+    setQueued,
+    leaveGame,
+    kickPlayer,
+    startGame,
+    rematch,
+    updateSettings,
+    setTeams,
+    balanceTeams,
+    chooseTeam,
+    findImpostor,
+  } = useOnlineGame();
+  const { announcement, announce } = useAnnouncer();
+
+  const phase = gameState?.phase;
+  const round = gameState?.round ?? 1;
+  const isHost = !!currentPlayer && currentPlayer.id === gameState?.host;
+  const timeLeft = gameState?.timeLeft;
+  const spriteCount = gameState?.sprites.length ?? 0;
+  const winnerName = gameState?.winner ? gameState.players[gameState.winner]?.username : undefined;
+  const lastTimeLeft = useRef(timeLeft);
+
+  useEffect(() => {
+    if (phase === 'playing') announce(`Round started. Find ${spriteCount} impostors.`);
+  }, [phase, spriteCount, announce]);
+
+  useEffect(() => {
+    if (round > 1) announce(`Rematch! Round ${round} is open.`);
+  }, [round, announce]);
+
+  // The winner can arrive a moment after the phase change, so this re-announces once it does
+  useEffect(() => {
+    if (phase === 'ended') announce(winnerName ? `Round over. ${winnerName} wins.` : 'Round over.');
+  }, [phase, winnerName, announce]);
+
+  useEffect(() => {
+    const previous = lastTimeLeft.current;
+    lastTimeLeft.current = timeLeft;
+    if (phase !== 'playing' || timeLeft === undefined || previous === undefined) return;
+
+    const crossed = TIME_WARNINGS.find((seconds) => previous > seconds && timeLeft <= seconds);
+    if (crossed !== undefined) announce(`${crossed} seconds left.`);
+  }, [phase, timeLeft, announce]);
+
+  useEffect(() => {
+    if (!lastFind) return;
+    switch (lastFind.result) {
+      case 'hit':
+        announce('Impostor found!');
+        break;
+      case 'miss':
+        announce(lastFind.penalty > 0 ? `Just a human. Minus ${lastFind.penalty} points.` : 'Just a human.');
+        break;
+      case 'throttled':
+        announce('Too many guesses. Wait a moment.');
+        break;
+    }
+  }, [lastFind, announce]);
+
+  // Power-ups that only show something on screen get read out as well
+  useEffect(() => {
+    if (powerUpEffect?.powerUp === 'hint') {
+      const { area } = powerUpEffect;
+      const quarter = (area.x >= 50 ? 1 : 0) + (area.y >= 50 ? 2 : 0);
+      announce(`Hint: an impostor is in the ${QUARTER_NAMES[quarter]} quarter.`);
+    } else if (powerUpEffect?.powerUp === 'radar') {
+      announce(`Radar: ${powerUpEffect.proximity}.`);
+    } else if (powerUpEffect?.powerUp === 'freeze') {
+      announce('Clock frozen.');
+    } else if (powerUpEffect?.powerUp === 'magnifier') {
+      announce('Magnifier on.');
+    }
+  }, [powerUpEffect, announce]);
+
+  useEffect(() => {
+    if (error) announce(error.message);
+  }, [error, announce]);
+
+  // The role can pass to us when the host leaves or goes quiet
+  const wasHost = useRef(isHost);
+  useEffect(() => {
+    if (isHost && !wasHost.current) announce('You are now the host.');
+    wasHost.current = isHost;
+  }, [isHost, announce]);
+
+  const handleLeave = async () => {
+    if (currentPlayer || currentSpectator) await leaveGame();
+    onLeave();
+  };
+
+  const needsToJoin = !currentPlayer && !currentSpectator && gameState?.phase !== 'ended';
+
+  let screen: React.ReactNode;
+  if (!gameState || gameState.phase === 'waiting' || needsToJoin) {
+    // Late joiners land in the lobby form even while a round is running
+    screen = (
+      <GameLobby
+        gameState={gameState}
+        currentPlayer={currentPlayer}
+        currentSpectator={currentSpectator}
+        onJoinGame={joinGame}
+        onSpectate={spectate}
+        onQueue={setQueued}
+        onStartGame={startGame}
+        onUpdateSettings={updateSettings}
+        onSetTeams={setTeams}
+        onBalanceTeams={balanceTeams}
+        onChooseTeam={chooseTeam}
+        onKick={kickPlayer}
+        onLeave={() => void handleLeave()}
+        error={error}
+      />
+    );
+  } else if (gameState.phase === 'playing') {
+    // Spectators get the same live board, minus the ability to click
+    screen = (
+      <OnlineGameBoard
+        gameState={gameState}
+        currentPlayer={currentPlayer}
+        currentSpectator={currentSpectator}
+        onQueue={(queued) => void setQueued(queued)}
+        lastFind={lastFind}
+        coolingDown={coolingDown}
+        powerUpEffect={powerUpEffect}
+        error={error?.message ?? ''}
+        onFindImpostor={(click) => void findImpostor(click)}
+        onUsePowerUp={(powerUp, click) => void activatePowerUp(powerUp, click)}
+        onAnnounce={announce}
+      />
+    );
+  } else {
+    screen = (
+      <OnlineGameResults
+        gameState={gameState}
+        currentPlayer={currentPlayer}
+        onRematch={rematch}
+        onLeave={() => void handleLeave()}
+      />
+    );
+  }
+
+  // The live region outlives screen changes so phase announcements are not cut off
+  return (
+    <>
+      {screen}
+      <LiveRegion announcement={announcement} />
+    </>
+  );
+};
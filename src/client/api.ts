@@ -0,0 +1,62 @@
+import { API_ROUTES, ApiRequest, ApiResult, ApiRouteName } from '../shared/api';
+import { ApiErrorResponse } from '../shared/types/api';
+
+/** A failed call, with the status code and body so callers can react to specific errors. */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly data: ApiErrorResponse
+  ) {
+    super(message);
+  }
+}
+
+// The dev server has no Reddit user, so identify this tab with a stable id instead
+const getDevUserId = () => {
+  let id = sessionStorage.getItem('devUserId');
+  if (!id) {
+    id = `dev_user_${Math.floor(Math.random() * 100000)}`;
+    sessionStorage.setItem('devUserId', id);
+  }
+  return id;
+};
+
+// Routes that take nothing can be called with just their name
+type ApiCallArgs<K extends ApiRouteName> = object extends ApiRequest<K> ? [request?: ApiRequest<K>] : [request: ApiRequest<K>];
+
+type AnyRequest = { body?: unknown; query?: Record<string, unknown>; params?: Record<string, string> };
+
+const buildUrl = (path: string, { query, params }: AnyRequest) => {
+  const url = path.replace(/:(\w+)/g, (_match, name: string) => encodeURIComponent(params?.[name] ?? ''));
+  const search = new URLSearchParams(
+    Object.entries(query ?? {})
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, String(value)])
+  ).toString();
+  return search ? `${url}?${search}` : url;
+};
+
+/**
+ * Calls the game server as this player, rejecting with an ApiError when the request fails.
+ * The route's entry in `API_ROUTES` decides the method and URL, and types what is sent and returned.
+ */
+export const callApi = async <K extends ApiRouteName>(name: K, ...[request]: ApiCallArgs<K>): Promise<ApiResult<K>> => {
+  const route = API_ROUTES[name];
+  const { body } = (request ?? {}) as AnyRequest;
+
+  const response = await fetch(buildUrl(route.path, (request ?? {}) as AnyRequest), {
+    method: route.method,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Dev-User-Id': getDevUserId(),
+    },
+    ...(route.method === 'POST' && { body: JSON.stringify(body ?? {}) }),
+  });
+  const data = (await response.json()) as ApiResult<K> | ApiErrorResponse;
+  if (!response.ok || data.status !== 'success') {
+    const error = data as ApiErrorResponse;
+    throw new ApiError(error.message || `Request failed (${response.status})`, response.status, error);
+  }
+  return data as ApiResult<K>;
+};
@@ -1,9 +1,14 @@
 import React, { useMemo } from 'react';
-import { Impostor } from '../../shared/types/game';
+import { Impostor, ImpostorSprite } from '../../shared/types/game';
+import { SceneClick } from '../../shared/types/geometry';
+import { createRandom } from '../../shared/random';
+import { clientToScene, getImpostorBounds, hitsImpostor } from '../../shared/geometry';
 
 interface CrowdSceneProps {
-  impostors: Impostor[];
-  onPersonClick: (x: number, y: number) => void;
+  seed: string; // Same seed, same crowd on every client
+  sprites: ImpostorSprite[]; // Every alien to draw
+  impostors: Impostor[]; // Only the ones this viewer is allowed to see the hitboxes of
+  onSceneClick: (click: SceneClick) => void;
   foundImpostors: string[];
 }
 
@@ -15,48 +20,63 @@ interface Person {
   type: 'human' | 'impostor';
   variant: number;
   depth: number;
-  impostorId?: string;
+  found?: boolean;
 }
 
 export const CrowdScene: React.FC<CrowdSceneProps> = ({
+  seed,
+  sprites,
   impostors,
-  onPersonClick,
+  onSceneClick,
   foundImpostors,
 }) => {
   const crowd = useMemo(() => {
+    const random = createRandom(`${seed}:crowd`);
     const people: Person[] = [];
     
     // Add regular humans (background crowd)
     for (let i = 0; i < 300; i++) {
       people.push({
         id: `human_${i}`,
-        x: Math.random() * 100,
-        y: Math.random() * 100,
-        size: 0.3 + Math.random() * 0.4, // Varied sizes for depth
+        x: random() * 100,
+        y: random() * 100,
+        size: 0.3 + random() * 0.4, // Varied sizes for depth
         type: 'human',
-        variant: Math.floor(Math.random() * 6), // Different human types
-        depth: Math.random(), // For layering
+        variant: Math.floor(random() * 6), // Different human types
+        depth: random(), // For layering
       });
     }
     
-    // Add impostors at their specific locations
-    impostors.forEach((impostor) => {
+    // Sprites sit on the centre of their hitbox, so a sprite is found once a found hitbox covers it
+    const found = impostors.filter((impostor) => foundImpostors.includes(impostor.id));
+    sprites.forEach((sprite) => {
+      // Each sprite gets its own stream so its look doesn't change when it is found
+      const spriteRandom = createRandom(`${seed}:${sprite.key}`);
       people.push({
-        id: `impostor_${impostor.id}`,
-        x: impostor.x + (Math.random() - 0.5) * 2, // Slight randomization
-        y: impostor.y + (Math.random() - 0.5) * 2,
-        size: impostor.difficulty === 'easy' ? 0.8 : 
-              impostor.difficulty === 'medium' ? 0.5 : 0.3,
+        id: sprite.key,
+        x: sprite.x,
+        y: sprite.y,
+        size: sprite.scale,
         type: 'impostor',
-        variant: Math.floor(Math.random() * 3), // Different impostor variants
-        depth: Math.random(),
-        impostorId: impostor.id,
+        variant: Math.floor(spriteRandom() * 3), // Different impostor variants
+        depth: spriteRandom(),
+        found: found.some((impostor) => hitsImpostor(impostor, sprite)),
       });
     });
     
     // Sort by depth for proper layering
     return people.sort((a, b) => a.depth - b.depth);
-  }, [impostors]);
+  }, [seed, sprites, impostors, foundImpostors]);
+
+  const particles = useMemo(() => {
+    const random = createRandom(`${seed}:particles`);
+    return Array.from({ length: 20 }, () => ({
+      left: random() * 100,
+      top: random() * 100,
+      delay: random() * 3,
+      duration: 2 + random() * 3,
+    }));
+  }, [seed]);
 
   const getHumanEmoji = (variant: number) => {
     const humans = ['🧑', '👩', '👨', '🧑‍💼', '👩‍💼', '👨‍💼'];
@@ -68,13 +88,14 @@ export const CrowdScene: React.FC<CrowdSceneProps> = ({
     return aliens[variant];
   };
 
-  const handlePersonClick = (person: Person, event: React.MouseEvent) => {
-    event.stopPropagation();
-    onPersonClick(person.x, person.y);
+  // Report where the pointer actually landed, not where the clicked sprite is anchored
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onSceneClick(clientToScene(event.clientX, event.clientY, rect));
   };
 
   return (
-    <div className="relative w-full h-full overflow-hidden">
+    <div className="relative w-full h-full overflow-hidden" onClick={handleClick}>
       {/* Background gradient */}
       <div className="absolute inset-0 bg-gradient-to-b from-blue-900 via-purple-900 to-indigo-900" />
       
@@ -99,10 +120,8 @@ export const CrowdScene: React.FC<CrowdSceneProps> = ({
 
       {/* Crowd */}
       {crowd.map((person) => {
-        const isFound = person.type === 'impostor' && 
-                       person.impostorId && 
-                       foundImpostors.includes(person.impostorId);
-        
+        const isFound = !!person.found;
+
         return (
           <div
             key={person.id}
@@ -117,7 +136,6 @@ export const CrowdScene: React.FC<CrowdSceneProps> = ({
               zIndex: Math.floor(person.depth * 100),
               filter: `brightness(${0.7 + person.depth * 0.6}) contrast(${0.8 + person.depth * 0.4})`,
             }}
-            onClick={(e) => handlePersonClick(person, e)}
           >
             {person.type === 'impostor' ? (
               <span className={`${isFound ? 'grayscale' : 'text-green-400'} drop-shadow-lg`}>
@@ -143,34 +161,38 @@ export const CrowdScene: React.FC<CrowdSceneProps> = ({
       {/* Found impostor markers */}
       {impostors
         .filter(impostor => foundImpostors.includes(impostor.id))
-        .map((impostor) => (
-          <div
-            key={`marker_${impostor.id}`}
-            className="absolute border-4 border-green-400 bg-green-400 bg-opacity-20 rounded-lg flex items-center justify-center animate-pulse"
-            style={{
-              left: `${impostor.x}%`,
-              top: `${impostor.y}%`,
-              width: `${impostor.width}%`,
-              height: `${impostor.height}%`,
-              transform: 'translate(-50%, -50%)',
-              zIndex: 1000,
-            }}
-          >
-            <div className="text-green-400 font-bold text-2xl drop-shadow-lg">✓</div>
-          </div>
-        ))}
+        .map((impostor) => {
+          const bounds = getImpostorBounds(impostor);
+          return (
+            <div
+              key={`marker_${impostor.id}`}
+              className={`absolute border-4 border-green-400 bg-green-400 bg-opacity-20 flex items-center justify-center animate-pulse pointer-events-none ${
+                impostor.hitShape?.kind === 'circle' ? 'rounded-full' : 'rounded-lg'
+              }`}
+              style={{
+                left: `${bounds.x}%`,
+                top: `${bounds.y}%`,
+                width: `${bounds.width}%`,
+                height: `${bounds.height}%`,
+                zIndex: 1000,
+              }}
+            >
+              <div className="text-green-400 font-bold text-2xl drop-shadow-lg">✓</div>
+            </div>
+          );
+        })}
 
       {/* Floating particles for atmosphere */}
       <div className="absolute inset-0 pointer-events-none">
-        {Array.from({ length: 20 }, (_, i) => (
+        {particles.map((particle, i) => (
           <div
             key={`particle_${i}`}
             className="absolute w-1 h-1 bg-white rounded-full opacity-30 animate-pulse"
             style={{
-              left: `${Math.random() * 100}%`,
-              top: `${Math.random() * 100}%`,
-              animationDelay: `${Math.random() * 3}s`,
-              animationDuration: `${2 + Math.random() * 3}s`,
+              left: `${particle.left}%`,
+              top: `${particle.top}%`,
+              animationDelay: `${particle.delay}s`,
+              animationDuration: `${particle.duration}s`,
             }}
           />
         ))}
@@ -1,39 +1,55 @@
-import React, { useRef } from 'react';
-
-interface Impostor {
-  id: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  found: boolean;
-}
-
-interface GameState {
-  phase: 'menu' | 'playing' | 'ended';
-  timeLeft: number;
-  score: number;
-  impostors: Impostor[];
-  startTime?: number;
-  endTime?: number;
-}
+import React, { useEffect, useMemo, useRef } from 'react';
+import { createRandom } from '../../shared/random';
+import { clientToScene } from '../../shared/geometry';
+import { SoloGameState } from '../../shared/types/game';
+import { ScenePoint } from '../../shared/types/geometry';
+import { formatAccuracy, getAccuracy } from '../../shared/stats';
+import { useAnnouncer } from '../hooks/useAnnouncer';
+import { useKeyboardCursor } from '../hooks/useKeyboardCursor';
+import { KeyboardCursor } from './KeyboardCursor';
+import { LiveRegion } from './LiveRegion';
 
 interface GameBoardProps {
-  gameState: GameState;
-  onFindImpostor: (x: number, y: number) => void;
+  gameState: SoloGameState;
+  lastFind: { found: boolean; penalty: number; at: number } | null;
+  onFindImpostor: (point: ScenePoint) => void;
 }
 
-export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onFindImpostor }) => {
+export const GameBoard: React.FC<GameBoardProps> = ({ gameState, lastFind, onFindImpostor }) => {
   const gameAreaRef = useRef<HTMLDivElement>(null);
+  const { announcement, announce } = useAnnouncer();
+  const keyboard = useKeyboardCursor({ onGuess: onFindImpostor, onAnnounce: announce });
+
+  useEffect(() => {
+    gameAreaRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (!lastFind) return;
+    announce(
+      lastFind.found
+        ? 'Impostor found!'
+        : `Just a human.${lastFind.penalty > 0 ? ` Minus ${lastFind.penalty} points.` : ''}`
+    );
+  }, [lastFind, announce]);
+
+  // Derived from the seed so the crowd stays put across timer ticks
+  const crowd = useMemo(() => {
+    const random = createRandom(`${gameState.seed}:crowd`);
+    return Array.from({ length: 200 }, () => ({
+      left: random() * 95,
+      top: random() * 95,
+      opacity: 0.7 + random() * 0.3,
+      fontSize: 1 + random() * 1,
+      emoji: ['🧑', '👩', '👨', '🧑‍💼', '👩‍💼', '👨‍💼'][Math.floor(random() * 6)],
+    }));
+  }, [gameState.seed]);
 
   const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
     if (!gameAreaRef.current) return;
     
     const rect = gameAreaRef.current.getBoundingClientRect();
-    const x = ((event.clientX - rect.left) / rect.width) * 100;
-    const y = ((event.clientY - rect.top) / rect.height) * 100;
-    
-    onFindImpostor(x, y);
+    onFindImpostor(clientToScene(event.clientX, event.clientY, rect));
   };
 
   const formatTime = (seconds: number) => {
@@ -44,6 +60,7 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onFindImpostor
 
   const foundCount = gameState.impostors.filter(imp => imp.found).length;
   const totalCount = gameState.impostors.length;
+  const accuracy = getAccuracy(foundCount, gameState.misses);
 
   return (
     <div className="h-screen bg-gray-900 text-white flex flex-col">
@@ -58,6 +75,9 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onFindImpostor
             <div className="bg-green-600 px-4 py-2 rounded-lg font-bold">
               {gameState.score} PTS
             </div>
+            <div className="bg-gray-700 px-4 py-2 rounded-lg font-bold" title="Accuracy">
+              🎯 {formatAccuracy(accuracy)}
+            </div>
           </div>
         </div>
         
@@ -73,8 +93,12 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onFindImpostor
       {/* Game Area */}
       <div 
         ref={gameAreaRef}
-        className="flex-1 relative cursor-crosshair overflow-hidden"
+        tabIndex={0}
+        role="application"
+        aria-label="Crowd. Arrow keys move the cursor, Shift for finer steps, Enter guesses."
+        className="flex-1 relative cursor-crosshair overflow-hidden focus:outline-none focus-visible:ring-4 focus-visible:ring-yellow-300"
         onClick={handleClick}
+        onKeyDown={keyboard.onKeyDown}
         style={{
           backgroundImage: `
             radial-gradient(circle at 20% 30%, rgba(59, 130, 246, 0.1) 0%, transparent 50%),
@@ -85,35 +109,35 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onFindImpostor
         }}
       >
         {/* Crowd of people */}
-        {Array.from({ length: 200 }, (_, i) => (
+        {crowd.map((person, i) => (
           <div
             key={`person_${i}`}
             className="absolute text-2xl select-none pointer-events-none"
             style={{
-              left: `${Math.random() * 95}%`,
-              top: `${Math.random() * 95}%`,
+              left: `${person.left}%`,
+              top: `${person.top}%`,
               transform: 'translate(-50%, -50%)',
-              opacity: 0.7 + Math.random() * 0.3,
-              fontSize: `${1 + Math.random() * 1}rem`,
+              opacity: person.opacity,
+              fontSize: `${person.fontSize}rem`,
             }}
           >
-            {['🧑', '👩', '👨', '🧑‍💼', '👩‍💼', '👨‍💼'][Math.floor(Math.random() * 6)]}
+            {person.emoji}
           </div>
         ))}
 
         {/* Impostors */}
+        {/* Impostor boxes are anchored top-left in scene percentages, like their hitboxes */}
         {gameState.impostors.map((impostor) => (
           <div
             key={impostor.id}
-            className={`absolute text-4xl select-none pointer-events-none transition-all duration-300 ${
+            className={`absolute flex items-center justify-center text-4xl select-none pointer-events-none transition-all duration-300 ${
               impostor.found ? 'opacity-30 scale-110' : 'hover:scale-110'
             }`}
             style={{
               left: `${impostor.x}%`,
               top: `${impostor.y}%`,
-              width: `${impostor.width}px`,
-              height: `${impostor.height}px`,
-              transform: 'translate(-50%, -50%)',
+              width: `${impostor.width}%`,
+              height: `${impostor.height}%`,
             }}
           >
             <span className={impostor.found ? 'grayscale' : 'text-green-400'}>
@@ -129,6 +153,21 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onFindImpostor
           </div>
         ))}
 
+        {keyboard.active && <KeyboardCursor cursor={keyboard.cursor} cellSize={keyboard.cellSize} />}
+
+        {lastFind && (
+          <div
+            key={lastFind.at}
+            className={`absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 rounded-lg font-bold pointer-events-none animate-pulse ${
+              lastFind.found ? 'bg-green-600' : 'bg-gray-700'
+            }`}
+          >
+            {lastFind.found
+              ? '👽 Impostor found!'
+              : `🧑 Just a human...${lastFind.penalty > 0 ? ` -${lastFind.penalty} PTS` : ''}`}
+          </div>
+        )}
+
         {/* Scanning lines for atmosphere */}
         <div className="absolute inset-0 pointer-events-none">
           <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-cyan-400 to-transparent animate-pulse opacity-30" />
@@ -140,14 +179,17 @@ export const GameBoard: React.FC<GameBoardProps> = ({ gameState, onFindImpostor
       <div className="bg-gray-800 border-t border-gray-700 p-4">
         <div className="text-center">
           <p className="text-gray-300 mb-2">
-            🔍 Click on the alien impostors hidden in the crowd!
+            🔍 Click on the alien impostors hidden in the crowd! Or use the arrow keys and Enter.
           </p>
           <div className="flex justify-center space-x-8 text-sm">
             <span className="text-green-400">👽 = Alien Impostor (+100 pts)</span>
             <span className="text-blue-400">🧑 = Human (ignore)</span>
+            <span className="text-red-400">❌ Misses: {gameState.misses}</span>
           </div>
         </div>
       </div>
+
+      <LiveRegion announcement={announcement} />
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,30 +1,244 @@
 import React, { useState } from 'react';
-import { GameState, Player } from '../../shared/types/game';
+import { GameMode, GameSettings, GameView, PlayerView, Spectator } from '../../shared/types/game';
+import { DIFFICULTIES, GAME_MODES, getImpostorCount, MAX_IMPOSTORS, MAX_PLAYERS } from '../../shared/settings';
+import { getPresence, PRESENCE_LABELS } from '../../shared/presence';
+import { useAutoFocus } from '../hooks/useAutoFocus';
+import type { GameError } from '../hooks/useOnlineGame';
+import { TeamsPanel } from './TeamsPanel';
+
+export interface NewGameOptions {
+  mode: GameMode;
+  seed?: string;
+  missPenalty?: number;
+}
 
 interface GameLobbyProps {
-  gameState?: GameState;
-  currentPlayer?: Player | null;
-  onJoinGame: (username: string) => Promise<void>;
+  gameState?: GameView | undefined;
+  currentPlayer?: PlayerView | null;
+  currentSpectator?: Spectator | null;
+  onJoinGame: (username: string, options?: NewGameOptions) => Promise<void>;
+  onSpectate?: (username: string) => Promise<void>;
+  onQueue?: (queued: boolean) => Promise<void>;
   onStartGame?: () => Promise<void>;
-  error: string;
+  onUpdateSettings?: (settings: Partial<GameSettings>) => Promise<void>;
+  onSetTeams?: (names: string[]) => Promise<void>;
+  onBalanceTeams?: () => Promise<void>;
+  onChooseTeam?: (teamId: string) => Promise<void>;
+  onKick?: (playerId: string) => Promise<void>;
+  onLeave?: () => void;
+  error: GameError | null;
+}
+
+const MISS_PENALTIES = [0, 5, 10, 25];
+const TIME_LIMITS = [60, 120, 180, 300, 600, 900]; // Seconds
+
+const MODE_LABELS: Record<GameMode, { name: string; description: string }> = {
+  race: { name: 'Race', description: 'First to click an impostor scores it' },
+  independent: { name: 'Independent', description: 'Everyone hunts every impostor on their own board' },
+  coop: { name: 'Co-op', description: 'Work together for one team score before time runs out' },
+};
+
+/**
+ * Lobby wording for failures the player can do something about. The rest, like a setting the
+ * server turned down, already come with a message specific enough to show as is.
+ */
+const getErrorMessage = (error: GameError, gameState: GameView | undefined) => {
+  switch (error.code) {
+    case undefined:
+      return 'Could not reach the game. Check your connection and try again.';
+    case 'game-not-found':
+      return 'This game has ended or expired. Create a new one to keep playing.';
+    case 'kicked':
+      return 'The host removed you from this game.';
+    case 'not-logged-in':
+      return 'Log in to Reddit to join the game.';
+    case 'not-host':
+      return 'Only the host can do that. The role passes on if they leave or go quiet.';
+    case 'already-started':
+      return 'The round has already started, so the lobby is locked until the next one.';
+    case 'already-playing':
+      return 'You already have a seat in this game.';
+    case 'not-spectating':
+      return 'Only spectators can queue for a seat.';
+    case 'not-enough-players': {
+      if (!gameState) return error.message;
+      const missing = Math.max(1, gameState.minPlayers - Object.keys(gameState.players).length);
+      return `Waiting for ${missing} more ${missing === 1 ? 'player' : 'players'} before the round can start.`;
+    }
+    case 'server-error':
+      return 'Something went wrong on our side. Try again in a moment.';
+    default:
+      return error.message;
+  }
+};
+
+const formatMinutes = (seconds: number) => (seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`);
+
+const inputClassName =
+  'w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent text-white';
+
+interface SettingsPanelProps {
+  gameState: GameView;
+  onUpdate: (settings: Partial<GameSettings>) => void;
 }
 
+/** The host's controls for the next round. Every change is saved (and checked) by the server. */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ gameState, onUpdate }) => {
+  const playerCount = Object.keys(gameState.players).length;
+  const impostorCount = getImpostorCount(gameState.difficultyMix);
+
+  // Number inputs report '' while being retyped; wait for a real number
+  const onNumber = (update: (value: number) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.value !== '') update(Number(e.target.value));
+  };
+
+  return (
+    <fieldset className="mb-8 p-4 bg-gray-700/40 rounded-lg grid grid-cols-2 gap-4">
+      <legend className="px-2 text-lg font-semibold text-white">Game settings</legend>
+
+      <div>
+        <label htmlFor="settingsMode" className="block text-sm font-medium text-gray-300 mb-1">Mode</label>
+        <select
+          id="settingsMode"
+          value={gameState.mode}
+          onChange={(e) => onUpdate({ mode: e.target.value as GameMode })}
+          className={inputClassName}
+        >
+          {GAME_MODES.map((option) => (
+            <option key={option} value={option}>
+              {MODE_LABELS[option].name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="settingsTimeLimit" className="block text-sm font-medium text-gray-300 mb-1">Time limit</label>
+        <select
+          id="settingsTimeLimit"
+          value={gameState.timeLimit}
+          onChange={(e) => onUpdate({ timeLimit: Number(e.target.value) })}
+          className={inputClassName}
+        >
+          {TIME_LIMITS.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              {formatMinutes(seconds)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="settingsMinPlayers" className="block text-sm font-medium text-gray-300 mb-1">Players to start</label>
+        <input
+          type="number"
+          id="settingsMinPlayers"
+          min={1}
+          max={gameState.maxPlayers}
+          value={gameState.minPlayers}
+          onChange={onNumber((minPlayers) => onUpdate({ minPlayers }))}
+          className={inputClassName}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="settingsMaxPlayers" className="block text-sm font-medium text-gray-300 mb-1">Player cap</label>
+        <input
+          type="number"
+          id="settingsMaxPlayers"
+          min={Math.max(1, playerCount)}
+          max={MAX_PLAYERS}
+          value={gameState.maxPlayers}
+          onChange={onNumber((maxPlayers) => onUpdate({ maxPlayers }))}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="col-span-2">
+        <span className="block text-sm font-medium text-gray-300 mb-1">
+          Impostors ({impostorCount}/{MAX_IMPOSTORS})
+        </span>
+        <div className="grid grid-cols-3 gap-2">
+          {DIFFICULTIES.map((difficulty) => (
+            <label key={difficulty} className="text-xs text-gray-400 capitalize">
+              {difficulty}
+              <input
+                type="number"
+                min={0}
+                max={MAX_IMPOSTORS}
+                value={gameState.difficultyMix[difficulty]}
+                onChange={onNumber((count) =>
+                  onUpdate({ difficultyMix: { ...gameState.difficultyMix, [difficulty]: count } })
+                )}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="col-span-2">
+        <label htmlFor="settingsMissPenalty" className="block text-sm font-medium text-gray-300 mb-1">
+          Points lost per miss
+        </label>
+        <select
+          id="settingsMissPenalty"
+          value={gameState.missPenalty}
+          onChange={(e) => onUpdate({ missPenalty: Number(e.target.value) })}
+          className={inputClassName}
+        >
+          {/* Keep a penalty set at creation selectable even if it is not a preset */}
+          {[...new Set([...MISS_PENALTIES, gameState.missPenalty])].sort((a, b) => a - b).map((points) => (
+            <option key={points} value={points}>
+              {points === 0 ? 'No penalty' : `-${points} pts`}
+            </option>
+          ))}
+        </select>
+      </div>
+    </fieldset>
+  );
+};
+
 export const GameLobby: React.FC<GameLobbyProps> = ({
   gameState,
   currentPlayer,
+  currentSpectator,
   onJoinGame,
+  onSpectate,
+  onQueue,
   onStartGame,
+  onUpdateSettings,
+  onSetTeams,
+  onBalanceTeams,
+  onChooseTeam,
+  onKick,
+  onLeave,
   error,
 }) => {
   const [username, setUsername] = useState('');
+  const [mode, setMode] = useState<GameMode>('race');
+  const [seed, setSeed] = useState('');
+  const [missPenalty, setMissPenalty] = useState(5);
   const [joining, setJoining] = useState(false);
+  const headingRef = useAutoFocus<HTMLHeadingElement>(
+    gameState ? (currentPlayer ? 'waiting' : currentSpectator ? 'watching' : 'join') : 'new'
+  );
 
   const handleJoin = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!username.trim()) return;
     
     setJoining(true);
-    await onJoinGame(username.trim());
+    const options: NewGameOptions = { mode, missPenalty, ...(seed.trim() && { seed: seed.trim() }) };
+    await onJoinGame(username.trim(), gameState ? undefined : options);
+    setJoining(false);
+  };
+
+  const handleSpectate = async () => {
+    if (!username.trim() || !onSpectate) return;
+
+    setJoining(true);
+    await onSpectate(username.trim());
     setJoining(false);
   };
 
@@ -35,14 +249,20 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
   };
 
   const players = gameState ? Object.values(gameState.players) : [];
+  const now = Date.now();
   const isHost = currentPlayer && gameState && currentPlayer.id === gameState.host;
+  const isFull = !!gameState && players.length >= gameState.maxPlayers;
+  const spectators = Object.values(gameState?.spectators ?? {});
+  const queuedCount = spectators.filter((spectator) => spectator.queuedAt).length;
 
   if (!gameState) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4">
         <div className="max-w-md w-full bg-gray-800 rounded-lg p-8 shadow-2xl">
           <div className="text-center mb-8">
-            <h1 className="text-4xl font-bold text-red-400 mb-2">Find the Impostors!</h1>
+            <h1 ref={headingRef} tabIndex={-1} className="text-4xl font-bold text-red-400 mb-2 focus:outline-none">
+              Find the Impostors!
+            </h1>
             <p className="text-gray-300">Where's Waldo style hidden object game</p>
           </div>
           
@@ -62,6 +282,68 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
                 maxLength={20}
               />
             </div>
+
+            <fieldset>
+              <legend className="block text-sm font-medium text-gray-300 mb-2">Game mode:</legend>
+              <div className="grid gap-2">
+                {(Object.keys(MODE_LABELS) as GameMode[]).map((option) => (
+                  <label
+                    key={option}
+                    className={`flex flex-col p-3 rounded-lg cursor-pointer border ${
+                      mode === option ? 'bg-red-600 bg-opacity-20 border-red-500' : 'bg-gray-700 border-gray-600'
+                    }`}
+                  >
+                    <span className="flex items-center space-x-2">
+                      <input
+                        type="radio"
+                        name="mode"
+                        value={option}
+                        checked={mode === option}
+                        onChange={() => setMode(option)}
+                        disabled={joining}
+                      />
+                      <span className="font-medium text-white">{MODE_LABELS[option].name}</span>
+                    </span>
+                    <span className="text-xs text-gray-400 mt-1">{MODE_LABELS[option].description}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <div>
+              <label htmlFor="seed" className="block text-sm font-medium text-gray-300 mb-2">
+                Puzzle seed (optional):
+              </label>
+              <input
+                type="text"
+                id="seed"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value.replace(/[^a-z0-9]/gi, ''))}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent text-white"
+                placeholder="Replay a shared puzzle"
+                disabled={joining}
+                maxLength={32}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="missPenalty" className="block text-sm font-medium text-gray-300 mb-2">
+                Points lost per miss:
+              </label>
+              <select
+                id="missPenalty"
+                value={missPenalty}
+                onChange={(e) => setMissPenalty(Number(e.target.value))}
+                className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg focus:ring-2 focus:ring-red-500 focus:border-transparent text-white"
+                disabled={joining}
+              >
+                {MISS_PENALTIES.map((points) => (
+                  <option key={points} value={points}>
+                    {points === 0 ? 'No penalty' : `-${points} pts`}
+                  </option>
+                ))}
+              </select>
+            </div>
             
             <button
               type="submit"
@@ -74,7 +356,7 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
           
           {error && (
             <div className="mt-4 p-3 bg-red-600 bg-opacity-20 border border-red-500 rounded-lg text-red-300 text-sm">
-              {error}
+              {getErrorMessage(error, gameState)}
             </div>
           )}
         </div>
@@ -86,10 +368,21 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
     <div className="min-h-screen flex items-center justify-center p-4">
       <div className="max-w-2xl w-full bg-gray-800 rounded-lg p-8 shadow-2xl">
         <div className="text-center mb-8">
-          <h1 className="text-4xl font-bold text-red-400 mb-2">Find the Impostors!</h1>
-          <p className="text-gray-300">Waiting for players...</p>
+          <h1 ref={headingRef} tabIndex={-1} className="text-4xl font-bold text-red-400 mb-2 focus:outline-none">
+            Find the Impostors!
+          </h1>
+          <p className="text-gray-300">
+            {gameState.round > 1 ? `Round ${gameState.round} · waiting for players...` : 'Waiting for players...'}
+          </p>
           <div className="mt-2 text-sm text-gray-400">
-            {players.length}/20 players
+            {players.length}/{gameState.maxPlayers} players · {formatMinutes(gameState.timeLimit)} ·{' '}
+            {getImpostorCount(gameState.difficultyMix)} impostors
+          </div>
+          <div className="mt-1 text-sm text-yellow-400">
+            {MODE_LABELS[gameState.mode].name}: {MODE_LABELS[gameState.mode].description}
+          </div>
+          <div className="mt-1 text-xs text-gray-400">
+            {gameState.missPenalty > 0 ? `Misses cost ${gameState.missPenalty} pts` : 'No penalty for misses'}
           </div>
         </div>
 
@@ -106,24 +399,65 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
                 }`}
               >
                 <div className="flex items-center space-x-3">
-                  <div className="w-8 h-8 bg-red-500 rounded-full flex items-center justify-center text-white font-bold">
+                  <div
+                    className="w-8 h-8 bg-red-500 rounded-full flex items-center justify-center text-white font-bold"
+                    style={{ backgroundColor: gameState.teams?.find((team) => team.id === player.teamId)?.color }}
+                  >
                     {player.username.charAt(0).toUpperCase()}
                   </div>
                   <span className="font-medium text-white">{player.username}</span>
+                  <span className="flex items-center gap-1 text-xs text-gray-400">
+                    <span
+                      className="inline-block w-2 h-2 rounded-full"
+                      style={{ backgroundColor: PRESENCE_LABELS[getPresence(player, now)].color }}
+                    />
+                    {PRESENCE_LABELS[getPresence(player, now)].name}
+                  </span>
                 </div>
                 {player.id === gameState.host && (
                   <span className="text-yellow-400 text-sm font-medium">HOST</span>
                 )}
+                {isHost && onKick && player.id !== gameState.host && (
+                  <button
+                    onClick={() => void onKick(player.id)}
+                    className="text-sm text-gray-400 hover:text-red-400"
+                    aria-label={`Remove ${player.username}`}
+                  >
+                    Remove
+                  </button>
+                )}
               </div>
             ))}
           </div>
         </div>
 
-        {!currentPlayer && (
+        {spectators.length > 0 && (
+          <div className="-mt-4 mb-8 text-sm text-gray-400">
+            👀 {spectators.length} watching{queuedCount > 0 && `, ${queuedCount} in line for a seat`}
+          </div>
+        )}
+
+        {currentSpectator && onQueue && (
+          <div className="mb-6 p-4 bg-gray-700/40 rounded-lg flex items-center justify-between gap-3">
+            <span className="text-gray-300 text-sm">
+              {currentSpectator.queuedAt
+                ? "You're in line and will be seated as soon as there's room."
+                : "You're watching. Queue up to play when a seat opens."}
+            </span>
+            <button
+              onClick={() => void onQueue(!currentSpectator.queuedAt)}
+              className="shrink-0 px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-500 text-sm font-semibold"
+            >
+              {currentSpectator.queuedAt ? 'Leave Queue' : 'Queue for Next Round'}
+            </button>
+          </div>
+        )}
+
+        {!currentPlayer && !currentSpectator && (
           <form onSubmit={handleJoin} className="space-y-4 mb-6">
             <div>
               <label htmlFor="username" className="block text-sm font-medium text-gray-300 mb-2">
-                Join the game:
+                {isFull ? 'The game is full, but you can watch:' : 'Join the game:'}
               </label>
               <input
                 type="text"
@@ -142,25 +476,61 @@ export const GameLobby: React.FC<GameLobbyProps> = ({
               disabled={!username.trim() || joining}
               className="w-full py-3 px-4 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors"
             >
-              {joining ? 'Joining...' : 'Join Game'}
+              {joining ? 'Joining...' : isFull ? 'Watch Game' : 'Join Game'}
             </button>
+            {!isFull && onSpectate && (
+              <button
+                type="button"
+                onClick={() => void handleSpectate()}
+                disabled={!username.trim() || joining}
+                className="w-full py-2 px-4 bg-gray-600 hover:bg-gray-500 disabled:bg-gray-700 disabled:cursor-not-allowed rounded-lg font-semibold transition-colors"
+              >
+                Just Watch
+              </button>
+            )}
           </form>
         )}
 
+        {onSetTeams && onBalanceTeams && onChooseTeam && (
+          <TeamsPanel
+            gameState={gameState}
+            currentPlayer={currentPlayer ?? null}
+            isHost={!!isHost}
+            onSetTeams={(names) => void onSetTeams(names)}
+            onBalanceTeams={() => void onBalanceTeams()}
+            onChooseTeam={(teamId) => void onChooseTeam(teamId)}
+          />
+        )}
+
+        {isHost && onUpdateSettings && (
+          <SettingsPanel gameState={gameState} onUpdate={(settings) => void onUpdateSettings(settings)} />
+        )}
+
         {isHost && (
           <div className="text-center">
             <button
               onClick={handleStart}
-              className="py-3 px-8 bg-green-600 hover:bg-green-700 text-white rounded-lg font-semibold transition-colors"
+              disabled={players.length < gameState.minPlayers}
+              className="py-3 px-8 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white rounded-lg font-semibold transition-colors"
             >
-              Start Game
+              {players.length < gameState.minPlayers
+                ? `Waiting for ${gameState.minPlayers - players.length} more`
+                : 'Start Game'}
+            </button>
+          </div>
+        )}
+
+        {(currentPlayer || currentSpectator) && onLeave && (
+          <div className="mt-4 text-center">
+            <button onClick={onLeave} className="text-sm text-gray-400 hover:text-white underline">
+              {isHost ? 'Leave game (the longest-waiting player becomes host)' : 'Leave game'}
             </button>
           </div>
         )}
 
         {error && (
           <div className="mt-4 p-3 bg-red-600 bg-opacity-20 border border-red-500 rounded-lg text-red-300 text-sm">
-            {error}
+            {getErrorMessage(error, gameState)}
           </div>
         )}
 
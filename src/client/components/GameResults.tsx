@@ -1,63 +1,21 @@
-import React, { useEffect, useState } from 'react';
-
-interface Impostor {
-  id: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  found: boolean;
-}
-
-interface GameState {
-  phase: 'menu' | 'playing' | 'ended';
-  timeLeft: number;
-  score: number;
-  impostors: Impostor[];
-  startTime?: number;
-  endTime?: number;
-}
+import React from 'react';
+import { formatAccuracy, getAccuracy } from '../../shared/stats';
+import { SCORE_REASON_LABELS, summarizeLedger } from '../../shared/scoring';
+import { SoloGameState } from '../../shared/types/game';
+import { ProfilePanel } from './ProfilePanel';
 
 interface GameResultsProps {
-  gameState: GameState;
+  gameState: SoloGameState;
   onPlayAgain: () => void;
 }
 
-interface SavedResult {
-  score: number;
-  time: number;
-  completedAt: number;
-}
-
 export const GameResults: React.FC<GameResultsProps> = ({ gameState, onPlayAgain }) => {
-  const [bestScore, setBestScore] = useState<SavedResult | null>(null);
-  
-  useEffect(() => {
-    // Load best score from localStorage
-    const saved = localStorage.getItem('bestGameResult');
-    if (saved) {
-      const savedResult = JSON.parse(saved) as SavedResult;
-      setBestScore(savedResult);
-    }
-    
-    // Check if current score is better
-    const current = localStorage.getItem('lastGameResult');
-    if (current) {
-      const currentResult = JSON.parse(current) as SavedResult;
-      if (!bestScore || currentResult.score > bestScore.score) {
-        localStorage.setItem('bestGameResult', current);
-        setBestScore(currentResult);
-      }
-    }
-  }, [bestScore]);
-
   const foundCount = gameState.impostors.filter(imp => imp.found).length;
   const totalCount = gameState.impostors.length;
   const completionTime = gameState.startTime && gameState.endTime 
     ? Math.floor((gameState.endTime - gameState.startTime) / 1000)
     : 0;
   
-  const isNewRecord = bestScore && gameState.score > bestScore.score;
   const isComplete = foundCount === totalCount;
 
   const formatTime = (seconds: number) => {
@@ -75,12 +33,6 @@ export const GameResults: React.FC<GameResultsProps> = ({ gameState, onPlayAgain
             {isComplete ? '🎉 MISSION COMPLETE!' : '⏰ TIME\'S UP!'}
           </h1>
           
-          {isNewRecord && (
-            <div className="text-2xl font-bold text-yellow-400 animate-pulse mb-4">
-              🏆 NEW HIGH SCORE! 🏆
-            </div>
-          )}
-          
           <div className="text-xl text-gray-300">
             {isComplete 
               ? 'All alien impostors have been captured!' 
@@ -111,45 +63,29 @@ export const GameResults: React.FC<GameResultsProps> = ({ gameState, onPlayAgain
           
           <div className="bg-gray-700/50 rounded-lg p-6 text-center">
             <div className="text-3xl font-bold text-purple-400 mb-2">
-              {Math.round((foundCount / totalCount) * 100)}%
+              {formatAccuracy(getAccuracy(foundCount, gameState.misses))}
             </div>
-            <div className="text-gray-300">Success Rate</div>
+            <div className="text-gray-300">Accuracy</div>
           </div>
         </div>
 
-        {/* Best Score */}
-        {bestScore && (
-          <div className="bg-gradient-to-r from-yellow-600/20 to-orange-600/20 border border-yellow-500/50 rounded-lg p-6 mb-8">
-            <h3 className="text-xl font-bold text-yellow-400 mb-4 text-center">
-              🏆 Personal Best
-            </h3>
-            <div className="grid grid-cols-2 gap-4 text-center">
-              <div>
-                <div className="text-2xl font-bold text-yellow-400">{bestScore.score}</div>
-                <div className="text-sm text-gray-300">Best Score</div>
-              </div>
-              <div>
-                <div className="text-2xl font-bold text-yellow-400">{formatTime(bestScore.time)}</div>
-                <div className="text-sm text-gray-300">Best Time</div>
-              </div>
-            </div>
-          </div>
-        )}
+        {/* Profile */}
+        <ProfilePanel />
 
         {/* Score Breakdown */}
         <div className="bg-gray-700/30 rounded-lg p-6 mb-8">
           <h3 className="text-lg font-bold text-white mb-4">Score Breakdown</h3>
           <div className="space-y-2 text-gray-300">
-            <div className="flex justify-between">
-              <span>Impostors Found ({foundCount} × 100)</span>
-              <span className="text-green-400">+{foundCount * 100}</span>
-            </div>
-            {isComplete && (
-              <div className="flex justify-between">
-                <span>Time Bonus ({gameState.timeLeft} seconds)</span>
-                <span className="text-blue-400">+{gameState.timeLeft * 10}</span>
+            {summarizeLedger(gameState.ledger).map((line) => (
+              <div key={line.reason} className="flex justify-between">
+                <span>
+                  {SCORE_REASON_LABELS[line.reason].emoji} {SCORE_REASON_LABELS[line.reason].name} ({line.count})
+                </span>
+                <span className={line.points < 0 ? 'text-red-400' : 'text-green-400'}>
+                  {line.points > 0 ? `+${line.points}` : line.points}
+                </span>
               </div>
-            )}
+            ))}
             <div className="border-t border-gray-600 pt-2 flex justify-between font-bold">
               <span>Total Score</span>
               <span className="text-yellow-400">{gameState.score}</span>
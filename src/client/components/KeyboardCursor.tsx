@@ -0,0 +1,24 @@
+import React from 'react';
+import { ScenePoint } from '../../shared/types/geometry';
+
+interface KeyboardCursorProps {
+  cursor: ScenePoint;
+  cellSize: number; // Scene percent
+}
+
+/** The cell a keyboard guess will land in; drawn in scene coordinates so it zooms with the crowd. */
+export const KeyboardCursor: React.FC<KeyboardCursorProps> = ({ cursor, cellSize }) => (
+  <div
+    className="absolute border-2 border-yellow-300 bg-yellow-300/10 pointer-events-none"
+    style={{
+      left: `${cursor.x - cellSize / 2}%`,
+      top: `${cursor.y - cellSize / 2}%`,
+      width: `${cellSize}%`,
+      height: `${cellSize}%`,
+      zIndex: 1600,
+    }}
+    aria-hidden="true"
+  >
+    <div className="absolute left-1/2 top-1/2 w-1.5 h-1.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-yellow-300" />
+  </div>
+);
@@ -0,0 +1,13 @@
+import React from 'react';
+import type { Announcement } from '../hooks/useAnnouncer';
+
+interface LiveRegionProps {
+  announcement: Announcement | null;
+}
+
+/** Invisible, but read out by screen readers whenever the announcement changes. */
+export const LiveRegion: React.FC<LiveRegionProps> = ({ announcement }) => (
+  <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+    {announcement && <span key={announcement.at}>{announcement.text}</span>}
+  </div>
+);
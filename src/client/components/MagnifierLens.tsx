@@ -0,0 +1,64 @@
+import React from 'react';
+import { Impostor, ImpostorSprite } from '../../shared/types/game';
+import { Viewport } from '../../shared/types/geometry';
+import { viewportToScene } from '../../shared/geometry';
+import { CrowdScene } from './CrowdScene';
+
+const LENS_SIZE = 160; // px
+const LENS_ZOOM = 2;
+
+interface MagnifierLensProps {
+  seed: string;
+  sprites: ImpostorSprite[];
+  impostors: Impostor[];
+  foundImpostors: string[];
+  pointer: { x: number; y: number; width: number; height: number }; // px within the game area
+  viewport: Viewport;
+}
+
+/** A zoomed copy of the crowd under the pointer. Clicks go straight through to the real scene. */
+export const MagnifierLens: React.FC<MagnifierLensProps> = ({
+  seed,
+  sprites,
+  impostors,
+  foundImpostors,
+  pointer,
+  viewport,
+}) => {
+  // Magnify on top of whatever zoom the viewport already has
+  const scale = viewport.zoom * LENS_ZOOM;
+  const focus = viewportToScene(viewport, pointer.x / pointer.width, pointer.y / pointer.height);
+
+  return (
+    <div
+      className="absolute rounded-full overflow-hidden border-4 border-cyan-300 shadow-2xl pointer-events-none"
+      style={{
+        left: pointer.x - LENS_SIZE / 2,
+        top: pointer.y - LENS_SIZE / 2,
+        width: LENS_SIZE,
+        height: LENS_SIZE,
+        zIndex: 1800,
+      }}
+    >
+      <div
+        className="absolute"
+        style={{
+          width: pointer.width,
+          height: pointer.height,
+          left: LENS_SIZE / 2 - (focus.x / 100) * pointer.width * scale,
+          top: LENS_SIZE / 2 - (focus.y / 100) * pointer.height * scale,
+          transform: `scale(${scale})`,
+          transformOrigin: '0 0',
+        }}
+      >
+        <CrowdScene
+          seed={seed}
+          sprites={sprites}
+          impostors={impostors}
+          foundImpostors={foundImpostors}
+          onSceneClick={() => {}}
+        />
+      </div>
+    </div>
+  );
+};
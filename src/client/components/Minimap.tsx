@@ -0,0 +1,49 @@
+import React from 'react';
+import { ImpostorSprite } from '../../shared/types/game';
+import { Viewport } from '../../shared/types/geometry';
+import { getViewportRect } from '../../shared/geometry';
+
+interface MinimapProps {
+  viewport: Viewport;
+  sprites: ImpostorSprite[];
+  onMove: (viewport: Viewport) => void;
+}
+
+/** The whole crowd in miniature with the zoomed-in area outlined. Tap to jump there. */
+export const Minimap: React.FC<MinimapProps> = ({ viewport, sprites, onMove }) => {
+  const visible = getViewportRect(viewport);
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    event.stopPropagation();
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * 100;
+    const y = ((event.clientY - rect.top) / rect.height) * 100;
+    onMove({ ...viewport, x: x - visible.width / 2, y: y - visible.height / 2 });
+  };
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 w-32 h-24 rounded-lg border-2 border-gray-500 bg-indigo-900/80 overflow-hidden cursor-pointer"
+      style={{ zIndex: 1900 }}
+      onClick={handleClick}
+      onPointerDown={(event) => event.stopPropagation()}
+    >
+      {sprites.map((sprite) => (
+        <div
+          key={sprite.key}
+          className="absolute w-1 h-1 rounded-full bg-green-400"
+          style={{ left: `${sprite.x}%`, top: `${sprite.y}%` }}
+        />
+      ))}
+      <div
+        className="absolute border-2 border-yellow-400 bg-yellow-400/10 pointer-events-none"
+        style={{
+          left: `${visible.x}%`,
+          top: `${visible.y}%`,
+          width: `${visible.width}%`,
+          height: `${visible.height}%`,
+        }}
+      />
+    </div>
+  );
+};
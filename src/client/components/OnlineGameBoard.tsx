@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import { GameView, PlayerView, PowerUp, PowerUpEffect, Spectator } from '../../shared/types/game';
+import { SceneClick, ScenePoint } from '../../shared/types/geometry';
+import { DEFAULT_ASPECT } from '../../shared/geometry';
+import { formatAccuracy, getAccuracy } from '../../shared/stats';
+import { getTeamStandings } from '../../shared/teams';
+import { getPresence } from '../../shared/presence';
+import type { FindFeedback } from '../hooks/useOnlineGame';
+import { useKeyboardCursor } from '../hooks/useKeyboardCursor';
+import { useViewport } from '../hooks/useViewport';
+import { CrowdScene } from './CrowdScene';
+import { KeyboardCursor } from './KeyboardCursor';
+import { MagnifierLens } from './MagnifierLens';
+import { Minimap } from './Minimap';
+import { PowerUpBar } from './PowerUpBar';
+
+const HINT_SHOW_MS = 5000;
+const RADAR_SHOW_MS = 3000;
+const ZOOM_BUTTON_STEP = 1.5;
+
+interface OnlineGameBoardProps {
+  gameState: GameView;
+  currentPlayer: PlayerView | null;
+  currentSpectator: Spectator | null;
+  lastFind: FindFeedback | null;
+  coolingDown: boolean;
+  powerUpEffect: (PowerUpEffect & { usedAt: number }) | null;
+  error: string;
+  onFindImpostor: (click: SceneClick) => void;
+  onUsePowerUp: (powerUp: PowerUp, click?: SceneClick) => void;
+  onAnnounce: (text: string) => void;
+  onQueue: (queued: boolean) => void;
+}
+
+export const OnlineGameBoard: React.FC<OnlineGameBoardProps> = ({
+  gameState,
+  currentPlayer,
+  currentSpectator,
+  lastFind,
+  coolingDown,
+  powerUpEffect,
+  error,
+  onFindImpostor,
+  onUsePowerUp,
+  onAnnounce,
+  onQueue,
+}) => {
+  const [radarArmed, setRadarArmed] = useState(false);
+  const [pointer, setPointer] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
+  const { containerRef, viewport, zoomBy, moveTo, reset, handlers } = useViewport();
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  // The server only sends impostors this player may see, i.e. the ones found on their board
+  const foundImpostors = gameState.impostors.map((imp) => imp.id);
+  const timeLeft = gameState.timeLeft ?? gameState.timeLimit;
+  const players = Object.values(gameState.players).sort((a, b) => b.score - a.score);
+  const accuracy = currentPlayer ? getAccuracy(currentPlayer.foundCount, currentPlayer.misses) : undefined;
+  const teamStandings = gameState.teams ? getTeamStandings(gameState.teams, players) : [];
+  const spectatorCount = Object.keys(gameState.spectators ?? {}).length;
+  const teamColors = Object.fromEntries((gameState.teams ?? []).map((team) => [team.id, team.color]));
+
+  // The board re-renders every second with the clock, which is enough to expire these
+  const now = Date.now();
+  const frozen = !!gameState.frozenUntil && now < gameState.frozenUntil;
+  const magnifying = !!currentPlayer?.magnifierUntil && now < currentPlayer.magnifierUntil;
+  const hint = powerUpEffect?.powerUp === 'hint' && now < powerUpEffect.usedAt + HINT_SHOW_MS ? powerUpEffect : null;
+  const radar = powerUpEffect?.powerUp === 'radar' && now < powerUpEffect.usedAt + RADAR_SHOW_MS ? powerUpEffect : null;
+
+  // Radar is aimed with the next tap on the crowd instead of a find
+  const handleSceneClick = (click: SceneClick) => {
+    if (!currentPlayer) return; // Spectating
+    if (radarArmed) {
+      setRadarArmed(false);
+      onUsePowerUp('radar', click);
+      return;
+    }
+    onFindImpostor(click);
+  };
+
+  const handleKeyboardGuess = (point: ScenePoint) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    handleSceneClick({ ...point, aspect: rect && rect.height > 0 ? rect.width / rect.height : DEFAULT_ASPECT });
+  };
+
+  const keyboard = useKeyboardCursor({
+    viewport,
+    onGuess: handleKeyboardGuess,
+    onZoom: zoomBy,
+    onResetZoom: reset,
+    onPan: moveTo,
+    onAnnounce,
+  });
+
+  // Land keyboard users on the crowd as soon as the round starts
+  useEffect(() => {
+    containerRef.current?.focus();
+  }, [containerRef]);
+
+  const handleUsePowerUp = (powerUp: PowerUp) => {
+    if (powerUp === 'radar') {
+      setRadarArmed(!radarArmed);
+      if (!radarArmed) onAnnounce('Radar armed. Pick a spot in the crowd to ping.');
+      return;
+    }
+    onUsePowerUp(powerUp);
+  };
+
+  const trackPointer = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    setPointer({ x: event.clientX - rect.left, y: event.clientY - rect.top, width: rect.width, height: rect.height });
+  };
+
+  const feedback = (lastFind: FindFeedback) => {
+    switch (lastFind.result) {
+      case 'hit':
+        return { text: '👽 Impostor found!', className: 'bg-green-600' };
+      case 'miss':
+        return {
+          text: lastFind.penalty > 0 ? `🧑 Just a human... -${lastFind.penalty} PTS` : '🧑 Just a human...',
+          className: 'bg-gray-700',
+        };
+      case 'throttled':
+        return { text: '🛑 Too many clicks! Cooling down...', className: 'bg-red-600' };
+    }
+  };
+
+  return (
+    <div className="h-screen bg-gray-900 text-white flex flex-col">
+      {/* Header */}
+      <div className="bg-gray-800 p-4 flex items-center justify-between border-b border-gray-700">
+        <div className="flex items-center space-x-6">
+          <h1 className="text-2xl font-bold text-red-400">REDDIMPOSTERS</h1>
+          <div className="flex items-center space-x-4">
+            <div className="bg-blue-600 px-4 py-2 rounded-lg font-bold">
+              {foundImpostors.length}/{gameState.sprites.length} FOUND
+            </div>
+            {currentPlayer ? (
+              <>
+                <div className="bg-green-600 px-4 py-2 rounded-lg font-bold">
+                  {currentPlayer.score} PTS
+                </div>
+                <div className="bg-gray-700 px-4 py-2 rounded-lg font-bold" title="Accuracy">
+                  🎯 {formatAccuracy(accuracy)}
+                </div>
+              </>
+            ) : (
+              <div className="bg-gray-700 px-4 py-2 rounded-lg font-bold">👀 SPECTATING</div>
+            )}
+            {spectatorCount > 0 && (
+              <div className="text-sm text-gray-400" title="Spectators">
+                👀 {spectatorCount}
+              </div>
+            )}
+            {gameState.mode === 'coop' && (
+              <div className="bg-purple-600 px-4 py-2 rounded-lg font-bold">
+                TEAM {gameState.teamScore ?? 0}
+              </div>
+            )}
+            {teamStandings.map((standing) => (
+              <div
+                key={standing.teamId}
+                className={`px-3 py-2 rounded-lg font-bold border-2 ${
+                  standing.teamId === currentPlayer?.teamId ? 'bg-gray-700' : 'bg-gray-800'
+                }`}
+                style={{ borderColor: standing.color }}
+              >
+                {standing.name} {standing.score}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className={`px-4 py-2 rounded-lg font-bold ${
+          frozen
+            ? 'bg-cyan-600'
+            : timeLeft <= 30
+              ? 'bg-red-600 animate-pulse'
+              : 'bg-yellow-600'
+        }`}>
+          {frozen ? '❄️' : '⏱️'} {formatTime(timeLeft)}
+        </div>
+      </div>
+
+      {/* Game Area */}
+      <div
+        ref={containerRef}
+        tabIndex={0}
+        role="application"
+        aria-label={
+          currentPlayer
+            ? 'Crowd. Arrow keys move the cursor, Shift for finer steps, Enter guesses, plus and minus zoom, 0 shows the whole crowd.'
+            : 'Crowd. You are spectating; plus and minus zoom, 0 shows the whole crowd.'
+        }
+        onKeyDown={keyboard.onKeyDown}
+        className={`flex-1 relative overflow-hidden touch-none focus:outline-none focus-visible:ring-4 focus-visible:ring-yellow-300 ${coolingDown ? 'pointer-events-none opacity-75' : ''} ${
+          radarArmed ? 'cursor-crosshair' : ''
+        }`}
+        {...handlers}
+        onMouseMove={magnifying ? trackPointer : undefined}
+        onMouseLeave={() => setPointer(null)}
+      >
+        {/* Everything pinned to scene coordinates zooms and pans together */}
+        <div
+          className="absolute inset-0"
+          style={{
+            transform: `scale(${viewport.zoom}) translate(${-viewport.x}%, ${-viewport.y}%)`,
+            transformOrigin: '0 0',
+          }}
+        >
+          <CrowdScene
+            seed={gameState.sceneSeed}
+            sprites={gameState.sprites}
+            impostors={gameState.impostors}
+            foundImpostors={foundImpostors}
+            onSceneClick={handleSceneClick}
+          />
+
+          {keyboard.active && <KeyboardCursor cursor={keyboard.cursor} cellSize={keyboard.cellSize} />}
+
+          {hint && (
+            <div
+              className="absolute border-4 border-dashed border-yellow-400 bg-yellow-400/10 rounded-lg animate-pulse pointer-events-none"
+              style={{
+                left: `${hint.area.x}%`,
+                top: `${hint.area.y}%`,
+                width: `${hint.area.width}%`,
+                height: `${hint.area.height}%`,
+                zIndex: 1500,
+              }}
+            />
+          )}
+
+          {radar && (
+            <div
+              className="absolute px-3 py-1 rounded-full font-bold text-sm pointer-events-none bg-gray-900/80"
+              style={{
+                left: `${radar.at.x}%`,
+                top: `${radar.at.y}%`,
+                transform: 'translate(-50%, -50%)',
+                zIndex: 1500,
+              }}
+            >
+              {radar.proximity === 'hot' ? '🔥 Hot!' : radar.proximity === 'warm' ? '🌡️ Warm' : '🧊 Cold'}
+            </div>
+          )}
+        </div>
+
+        {magnifying && pointer && (
+          <MagnifierLens
+            seed={gameState.sceneSeed}
+            sprites={gameState.sprites}
+            impostors={gameState.impostors}
+            foundImpostors={foundImpostors}
+            pointer={pointer}
+            viewport={viewport}
+          />
+        )}
+
+        {lastFind && (
+          <div
+            key={lastFind.at}
+            className={`absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 rounded-lg font-bold pointer-events-none animate-pulse ${
+              feedback(lastFind).className
+            }`}
+            style={{ zIndex: 2000 }}
+          >
+            {feedback(lastFind).text}
+          </div>
+        )}
+
+        <div className="absolute top-4 right-4 flex flex-col gap-1" style={{ zIndex: 1900 }}>
+          {[
+            { label: '+', title: 'Zoom in', onClick: () => zoomBy(ZOOM_BUTTON_STEP) },
+            { label: '−', title: 'Zoom out', onClick: () => zoomBy(1 / ZOOM_BUTTON_STEP) },
+            { label: '⤢', title: 'Show whole crowd', onClick: reset },
+          ].map((button) => (
+            <button
+              key={button.title}
+              title={button.title}
+              onClick={(event) => {
+                event.stopPropagation();
+                button.onClick();
+              }}
+              onPointerDown={(event) => event.stopPropagation()}
+              className="w-9 h-9 rounded-lg bg-gray-800/90 hover:bg-gray-700 font-bold"
+            >
+              {button.label}
+            </button>
+          ))}
+        </div>
+
+        {viewport.zoom > 1 && <Minimap viewport={viewport} sprites={gameState.sprites} onMove={moveTo} />}
+      </div>
+
+      {/* Players */}
+      <div className="bg-gray-800 border-t border-gray-700 p-4 space-y-3">
+        {currentPlayer && (
+          <PowerUpBar player={currentPlayer} radarArmed={radarArmed} onUse={handleUsePowerUp} />
+        )}
+        {currentSpectator && (
+          <div className="flex items-center justify-center gap-3 text-sm text-gray-300">
+            <span>
+              {currentSpectator.queuedAt ? "You're in line for the next round" : 'Watching this round'}
+            </span>
+            <button
+              onClick={() => onQueue(!currentSpectator.queuedAt)}
+              className="px-3 py-1 rounded-lg bg-gray-600 hover:bg-gray-500 font-semibold"
+            >
+              {currentSpectator.queuedAt ? 'Leave Queue' : 'Queue for Next Round'}
+            </button>
+          </div>
+        )}
+        {error && <div className="text-center text-sm text-red-300">{error}</div>}
+        <div className="flex flex-wrap justify-center gap-3 text-sm">
+          {players.map((player) => (
+            <span
+              key={player.id}
+              className={`${player.id === currentPlayer?.id ? 'text-yellow-400 font-bold' : 'text-gray-300'} ${
+                getPresence(player, now) === 'away' ? 'opacity-50' : ''
+              }`}
+              title={getPresence(player, now) === 'away' ? `${player.username} is away` : undefined}
+            >
+              {player.teamId && (
+                <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: teamColors[player.teamId] }} />
+              )}
+              {player.username}: {player.score} ({player.foundCount}, 🎯 {formatAccuracy(getAccuracy(player.foundCount, player.misses))})
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
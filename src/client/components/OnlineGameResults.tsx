@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { GameView, PlayerView } from '../../shared/types/game';
+import { formatAccuracy, getAccuracy } from '../../shared/stats';
+import { SCORE_REASON_LABELS, summarizeLedger } from '../../shared/scoring';
+import { useAutoFocus } from '../hooks/useAutoFocus';
+import { SubredditLeaderboard } from './SubredditLeaderboard';
+import { ProfilePanel } from './ProfilePanel';
+import { ReplayViewer } from './ReplayViewer';
+
+interface OnlineGameResultsProps {
+  gameState: GameView;
+  currentPlayer: PlayerView | null;
+  onRematch: () => Promise<void>;
+  onLeave: () => void;
+}
+
+export const OnlineGameResults: React.FC<OnlineGameResultsProps> = ({
+  gameState,
+  currentPlayer,
+  onRematch,
+  onLeave,
+}) => {
+  const [rematching, setRematching] = useState(false);
+  const [profileUserId, setProfileUserId] = useState<string | undefined>(undefined);
+  const [watchingReplay, setWatchingReplay] = useState(false);
+  const headingRef = useAutoFocus<HTMLHeadingElement>(watchingReplay ? 'replay' : 'results');
+  const foundCount =
+    gameState.mode === 'independent'
+      ? currentPlayer?.foundCount ?? 0
+      : gameState.impostors.filter((imp) => imp.found).length;
+  const totalCount = gameState.sprites.length;
+  const isCoop = gameState.mode === 'coop';
+  const winner = gameState.winner ? gameState.players[gameState.winner] : undefined;
+  const winningTeam = gameState.teams?.find((team) => team.id === gameState.winningTeam);
+  const isHost = !!currentPlayer && currentPlayer.id === gameState.host;
+  const isWinner = winningTeam
+    ? currentPlayer?.teamId === winningTeam.id
+    : !!currentPlayer && currentPlayer.id === gameState.winner;
+
+  const getEntryAccuracy = (playerId: string) => {
+    const player = gameState.players[playerId];
+    return player ? getAccuracy(player.foundCount, player.misses) : undefined;
+  };
+
+  const handleRematch = async () => {
+    setRematching(true);
+    await onRematch();
+    setRematching(false);
+  };
+
+  const formatTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  if (watchingReplay) {
+    return (
+      <ReplayViewer
+        gameId={gameState.id}
+        round={gameState.round}
+        initialPlayerIds={gameState.winner ? [gameState.winner] : Object.keys(gameState.players)}
+        onClose={() => setWatchingReplay(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center p-4">
+      <div className="max-w-2xl w-full bg-gray-800/90 backdrop-blur-sm rounded-xl p-8 shadow-2xl border border-gray-700">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 ref={headingRef} tabIndex={-1} className="text-5xl font-bold text-white mb-4 focus:outline-none">
+            {isWinner || (isCoop && foundCount === totalCount) ? '🎉 YOU WIN!' : '🏁 GAME OVER'}
+          </h1>
+
+          <div className="text-xl text-gray-300">
+            {isCoop
+              ? `Team score: ${gameState.teamScore ?? 0}`
+              : winningTeam
+                ? `Team ${winningTeam.name} wins!`
+                : gameState.teams
+                  ? 'The teams are tied!'
+                  : winner
+                ? `${winner.username} caught the most impostors!`
+                : 'The aliens got away this time...'}
+          </div>
+          <div className="mt-2 text-sm text-gray-400">
+            Round {gameState.round} · {foundCount}/{totalCount} impostors found
+          </div>
+          {gameState.seed && (
+            <div className="mt-1 text-xs text-gray-500">
+              Share this puzzle with seed <span className="font-mono text-gray-300">{gameState.seed}</span>
+            </div>
+          )}
+        </div>
+
+        {/* Team leaderboard */}
+        {gameState.teamLeaderboard && (
+          <div className="bg-gray-700/30 rounded-lg p-6 mb-8">
+            <h3 className="text-lg font-bold text-white mb-4">Teams</h3>
+            <div className="space-y-2 text-gray-300">
+              {gameState.teamLeaderboard.map((standing, index) => (
+                <div
+                  key={standing.teamId}
+                  className={`flex justify-between ${standing.teamId === currentPlayer?.teamId ? 'font-bold' : ''}`}
+                >
+                  <span>
+                    #{index + 1} <span style={{ color: standing.color }}>{standing.name}</span>
+                    <span className="text-sm text-gray-400"> ({standing.players} players)</span>
+                  </span>
+                  <span className="text-green-400">{standing.score}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Leaderboard */}
+        <div className="bg-gray-700/30 rounded-lg p-6 mb-8">
+          <h3 className="text-lg font-bold text-white mb-4">Leaderboard</h3>
+          <div className="space-y-2 text-gray-300">
+            {gameState.leaderboard.map((entry, index) => (
+              <div
+                key={entry.playerId}
+                className={`flex justify-between ${
+                  entry.playerId === currentPlayer?.id ? 'text-yellow-400 font-bold' : ''
+                }`}
+              >
+                <span>
+                  #{index + 1}{' '}
+                  <button onClick={() => setProfileUserId(entry.playerId)} className="hover:underline">
+                    {entry.username}
+                  </button>
+                  {entry.timeCompleted && gameState.gameStartTime && (
+                    <span className="text-sm text-gray-400">
+                      {' '}
+                      ({formatTime(Math.floor((entry.timeCompleted - gameState.gameStartTime) / 1000))})
+                    </span>
+                  )}
+                </span>
+                <span>
+                  <span className="text-sm text-gray-400 mr-3">🎯 {formatAccuracy(getEntryAccuracy(entry.playerId))}</span>
+                  <span className="text-green-400">{entry.score}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Score breakdown, straight from the ledger the server scored the round with */}
+        {currentPlayer?.ledger && currentPlayer.ledger.length > 0 && (
+          <div className="bg-gray-700/30 rounded-lg p-6 mb-8">
+            <h3 className="text-lg font-bold text-white mb-4">Your Score</h3>
+            <div className="space-y-1 text-sm text-gray-300">
+              {summarizeLedger(currentPlayer.ledger).map((line) => (
+                <div key={line.reason} className="flex justify-between">
+                  <span>
+                    {SCORE_REASON_LABELS[line.reason].emoji} {SCORE_REASON_LABELS[line.reason].name} ({line.count})
+                  </span>
+                  <span className={line.points < 0 ? 'text-red-400' : 'text-green-400'}>
+                    {line.points > 0 ? `+${line.points}` : line.points}
+                  </span>
+                </div>
+              ))}
+              <div className="flex justify-between border-t border-gray-600 pt-1 font-bold text-white">
+                <span>Final score</span>
+                <span className="text-green-400">{currentPlayer.score}</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <SubredditLeaderboard />
+
+        {/* Profile: your own, or whoever you picked from the leaderboard */}
+        <ProfilePanel
+          key={profileUserId ?? 'me'}
+          userId={profileUserId === currentPlayer?.id ? undefined : profileUserId}
+          {...(profileUserId && { onClose: () => setProfileUserId(undefined) })}
+        />
+
+        {/* Actions */}
+        {isHost ? (
+          <button
+            onClick={() => void handleRematch()}
+            disabled={rematching}
+            className="w-full mb-4 py-3 px-6 bg-green-600 hover:bg-green-700 disabled:bg-gray-600 rounded-lg font-bold transition-colors"
+          >
+            {rematching ? 'Setting up...' : '🔁 Rematch'}
+          </button>
+        ) : (
+          <div className="mb-4 text-center text-sm text-gray-400">
+            The host can start a rematch with everyone on this post.
+          </div>
+        )}
+        <button
+          onClick={() => setWatchingReplay(true)}
+          className="w-full mb-4 py-3 px-6 bg-gray-600 hover:bg-gray-500 rounded-lg font-bold transition-colors"
+        >
+          🎬 Watch Replay
+        </button>
+        <button
+          onClick={onLeave}
+          className="w-full py-4 px-6 bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 rounded-lg font-bold text-lg transition-all duration-200 transform hover:scale-105"
+        >
+          🏠 Back to Menu
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { PlayerView, PowerUp } from '../../shared/types/game';
+import { MAX_FREEZES_PER_PLAYER, POWER_UP_COSTS, POWER_UP_LABELS, POWER_UPS } from '../../shared/powerUps';
+
+interface PowerUpBarProps {
+  player: PlayerView;
+  radarArmed: boolean;
+  onUse: (powerUp: PowerUp) => void;
+}
+
+export const PowerUpBar: React.FC<PowerUpBarProps> = ({ player, radarArmed, onUse }) => {
+  const isAvailable = (powerUp: PowerUp) => {
+    if (powerUp === 'freeze') {
+      const freezes = player.powerUps.filter((use) => use.powerUp === 'freeze').length;
+      if (freezes >= MAX_FREEZES_PER_PLAYER) return false;
+    }
+    return player.charges > 0 || player.score >= POWER_UP_COSTS[powerUp];
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2">
+      <span className="text-sm text-gray-400 mr-2">⚡ {player.charges} charges</span>
+      {POWER_UPS.map((powerUp) => (
+        <button
+          key={powerUp}
+          onClick={() => onUse(powerUp)}
+          disabled={!isAvailable(powerUp)}
+          title={POWER_UP_LABELS[powerUp].description}
+          className={`px-3 py-1 rounded-lg text-sm font-semibold transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+            powerUp === 'radar' && radarArmed ? 'bg-yellow-600' : 'bg-gray-700 hover:bg-gray-600'
+          }`}
+        >
+          {POWER_UP_LABELS[powerUp].emoji} {POWER_UP_LABELS[powerUp].name}{' '}
+          <span className="text-xs text-gray-300">
+            {player.charges > 0 ? '(charge)' : `(${POWER_UP_COSTS[powerUp]} pts)`}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { formatAccuracy, getAccuracy } from '../../shared/stats';
+import { usePlayerStats } from '../hooks/usePlayerStats';
+
+interface ProfilePanelProps {
+  userId?: string | undefined; // Defaults to the current player
+  onClose?: () => void;
+}
+
+export const ProfilePanel: React.FC<ProfilePanelProps> = ({ userId, onClose }) => {
+  const { stats, error } = usePlayerStats(userId);
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  if (error) {
+    return (
+      <div className="bg-gray-700/30 rounded-lg p-6 mb-8 text-sm text-gray-400 text-center">{error}</div>
+    );
+  }
+
+  if (!stats) {
+    return (
+      <div className="bg-gray-700/30 rounded-lg p-6 mb-8 text-sm text-gray-400 text-center">
+        Loading profile...
+      </div>
+    );
+  }
+
+  const totalFound = stats.found.easy + stats.found.medium + stats.found.hard;
+  const tiles = [
+    { label: 'Games Played', value: stats.gamesPlayed, color: 'text-blue-400' },
+    { label: 'Wins', value: stats.wins, color: 'text-green-400' },
+    { label: 'Accuracy', value: formatAccuracy(getAccuracy(totalFound, stats.misses)), color: 'text-purple-400' },
+    {
+      label: 'Fastest Clear',
+      value: stats.fastestClear === undefined ? '–' : formatDuration(stats.fastestClear),
+      color: 'text-yellow-400',
+    },
+    { label: 'Win Streak', value: `${stats.currentStreak} (best ${stats.bestStreak})`, color: 'text-orange-400' },
+    {
+      label: 'Found (E/M/H)',
+      value: `${stats.found.easy}/${stats.found.medium}/${stats.found.hard}`,
+      color: 'text-red-400',
+    },
+  ];
+
+  return (
+    <div className="bg-gradient-to-r from-yellow-600/20 to-orange-600/20 border border-yellow-500/50 rounded-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold text-yellow-400">
+          👤 {userId ? stats.username || userId : 'Your Profile'}
+        </h3>
+        {onClose && (
+          <button onClick={onClose} className="text-sm text-gray-400 hover:text-white">
+            ✕
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-center">
+        {tiles.map((tile) => (
+          <div key={tile.label}>
+            <div className={`text-2xl font-bold ${tile.color}`}>{tile.value}</div>
+            <div className="text-sm text-gray-300">{tile.label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
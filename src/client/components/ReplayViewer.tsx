@@ -0,0 +1,179 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useReplay } from '../hooks/useReplay';
+import { CrowdScene } from './CrowdScene';
+
+interface ReplayViewerProps {
+  gameId: string;
+  round?: number;
+  initialPlayerIds: string[];
+  onClose: () => void;
+}
+
+const SPEEDS = [1, 2, 4, 8];
+const MARKER_FADE_MS = 3000; // How long a click stays on screen, in round time
+const PLAYER_COLORS = ['#facc15', '#38bdf8', '#f472b6', '#4ade80', '#fb923c', '#a78bfa'];
+
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ gameId, round, initialPlayerIds, onClose }) => {
+  const { replay, error } = useReplay(gameId, round);
+  const [selected, setSelected] = useState<string[]>(initialPlayerIds);
+  const [position, setPosition] = useState(0); // Milliseconds since the round started
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const duration = replay ? replay.endedAt - replay.startedAt : 0;
+  const playerIds = replay ? Object.keys(replay.players) : [];
+
+  // Advance the playhead with the display's frame rate while playing
+  useEffect(() => {
+    if (!playing) return;
+
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = (now - last) * speed;
+      last = now;
+      setPosition((prev) => {
+        const next = Math.min(duration, prev + elapsed);
+        if (next >= duration) setPlaying(false);
+        return next;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, duration]);
+
+  const clicks = useMemo(() => {
+    if (!replay) return [];
+    return replay.clicks.filter(
+      (click) => selected.includes(click.playerId) && click.at - replay.startedAt <= position
+    );
+  }, [replay, selected, position]);
+
+  const foundImpostors = useMemo(
+    () => clicks.flatMap((click) => (click.impostorId ? [click.impostorId] : [])),
+    [clicks]
+  );
+
+  const getColor = (playerId: string) =>
+    PLAYER_COLORS[playerIds.indexOf(playerId) % PLAYER_COLORS.length] ?? PLAYER_COLORS[0];
+
+  const togglePlayer = (playerId: string) =>
+    setSelected((prev) =>
+      prev.includes(playerId) ? prev.filter((id) => id !== playerId) : [...prev, playerId]
+    );
+
+  const formatTime = (ms: number) => {
+    const seconds = Math.floor(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 text-white flex flex-col" style={{ zIndex: 3000 }}>
+      {/* Header */}
+      <div className="bg-gray-800 p-4 flex items-center justify-between border-b border-gray-700">
+        <h1 className="text-2xl font-bold text-red-400">🎬 REPLAY</h1>
+        <button onClick={onClose} className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded-lg font-bold">
+          ✕ Close
+        </button>
+      </div>
+
+      {/* Scene */}
+      <div className="flex-1 relative overflow-hidden">
+        {error && <div className="p-8 text-center text-red-300">{error}</div>}
+        {!replay && !error && <div className="p-8 text-center text-gray-400">Loading replay...</div>}
+        {replay && (
+          <>
+            <CrowdScene
+              seed={replay.sceneSeed}
+              sprites={replay.sprites}
+              impostors={replay.impostors}
+              foundImpostors={foundImpostors}
+              onSceneClick={() => {}}
+            />
+
+            {/* Click markers, fading out after a few seconds of round time */}
+            <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 1500 }}>
+              {clicks.map((click) => {
+                const age = position - (click.at - replay.startedAt);
+                if (age > MARKER_FADE_MS && !click.found) return null;
+                return (
+                  <div
+                    key={`${click.playerId}_${click.at}`}
+                    className="absolute w-4 h-4 rounded-full border-2 flex items-center justify-center text-xs font-bold"
+                    style={{
+                      left: `${click.x}%`,
+                      top: `${click.y}%`,
+                      transform: 'translate(-50%, -50%)',
+                      borderColor: getColor(click.playerId),
+                      color: getColor(click.playerId),
+                      opacity: click.found ? 1 : Math.max(0.2, 1 - age / MARKER_FADE_MS),
+                    }}
+                  >
+                    {click.found ? '✓' : '×'}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Controls */}
+      {replay && (
+        <div className="bg-gray-800 border-t border-gray-700 p-4 space-y-3">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => {
+                if (position >= duration) setPosition(0);
+                setPlaying(!playing);
+              }}
+              className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg font-bold w-24"
+            >
+              {playing ? '⏸ Pause' : '▶ Play'}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              value={position}
+              onChange={(e) => setPosition(Number(e.target.value))}
+              className="flex-1"
+              aria-label="Replay position"
+            />
+            <span className="font-mono text-sm text-gray-300">
+              {formatTime(position)} / {formatTime(duration)}
+            </span>
+            <div className="flex gap-1">
+              {SPEEDS.map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setSpeed(option)}
+                  className={`px-2 py-1 rounded text-sm font-semibold ${
+                    speed === option ? 'bg-red-600' : 'bg-gray-600 hover:bg-gray-500'
+                  }`}
+                >
+                  {option}×
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-3 text-sm">
+            {playerIds.map((playerId) => (
+              <label key={playerId} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(playerId)}
+                  onChange={() => togglePlayer(playerId)}
+                />
+                <span style={{ color: getColor(playerId) }}>{replay.players[playerId]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { LeaderboardPeriod, RankedPlayer } from '../../shared/types/leaderboard';
+import { useLeaderboard } from '../hooks/useLeaderboard';
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  'all-time': 'All Time',
+  weekly: 'This Week',
+};
+
+export const SubredditLeaderboard: React.FC = () => {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly');
+  const { leaderboard, error, page, pageCount, nextPage, previousPage } = useLeaderboard(period);
+
+  const viewer = leaderboard?.viewer;
+  const viewerOnPage = !!viewer && !!leaderboard?.entries.some((entry) => entry.userId === viewer.userId);
+
+  const renderEntry = (entry: RankedPlayer) => (
+    <div
+      key={entry.userId}
+      className={`flex justify-between ${entry.userId === viewer?.userId ? 'text-yellow-400 font-bold' : ''}`}
+    >
+      <span>
+        #{entry.rank} {entry.username}
+      </span>
+      <span className="text-green-400">{entry.score}</span>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-700/30 rounded-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-white">Subreddit Leaderboard</h3>
+        <div className="flex gap-2">
+          {(Object.keys(PERIOD_LABELS) as LeaderboardPeriod[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setPeriod(option)}
+              className={`px-3 py-1 rounded-lg text-sm font-semibold transition-colors ${
+                period === option ? 'bg-red-600' : 'bg-gray-600 hover:bg-gray-500'
+              }`}
+            >
+              {PERIOD_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-300 mb-2">{error}</div>}
+
+      <div className="space-y-2 text-gray-300">
+        {leaderboard && leaderboard.entries.length === 0 && (
+          <div className="text-sm text-gray-400">No scores yet. Be the first!</div>
+        )}
+        {leaderboard?.entries.map(renderEntry)}
+        {viewer && !viewerOnPage && (
+          <div className="border-t border-gray-600 pt-2">{renderEntry(viewer)}</div>
+        )}
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-400">
+          <button onClick={previousPage} disabled={page === 0} className="disabled:opacity-40">
+            ← Prev
+          </button>
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <button onClick={nextPage} disabled={page >= pageCount - 1} className="disabled:opacity-40">
+            Next →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
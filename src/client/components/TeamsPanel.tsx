@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { GameView, PlayerView } from '../../shared/types/game';
+import { DEFAULT_TEAM_NAMES, MAX_TEAM_NAME_LENGTH, MAX_TEAMS, MIN_TEAMS } from '../../shared/teams';
+
+interface TeamsPanelProps {
+  gameState: GameView;
+  currentPlayer: PlayerView | null;
+  isHost: boolean;
+  onSetTeams: (names: string[]) => void;
+  onBalanceTeams: () => void;
+  onChooseTeam: (teamId: string) => void;
+}
+
+/** Team set-up for the host, and a team picker for everyone once teams exist. */
+export const TeamsPanel: React.FC<TeamsPanelProps> = ({
+  gameState,
+  currentPlayer,
+  isHost,
+  onSetTeams,
+  onBalanceTeams,
+  onChooseTeam,
+}) => {
+  const teams = gameState.teams ?? [];
+  const [names, setNames] = useState<string[]>(
+    teams.length > 0 ? teams.map((team) => team.name) : DEFAULT_TEAM_NAMES.slice(0, MIN_TEAMS)
+  );
+  const players = Object.values(gameState.players);
+
+  // Co-op is already one big team
+  if (gameState.mode === 'coop' || (!isHost && teams.length === 0)) return null;
+
+  const setTeamCount = (count: number) =>
+    setNames((current) =>
+      Array.from({ length: count }, (_, i) => current[i] ?? DEFAULT_TEAM_NAMES[i] ?? `Team ${i + 1}`)
+    );
+
+  return (
+    <div className="mb-8 p-4 bg-gray-700/40 rounded-lg">
+      <h2 className="text-lg font-semibold text-white mb-3">Teams</h2>
+
+      {teams.length > 0 && (
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          {teams.map((team) => {
+            const members = players.filter((player) => player.teamId === team.id);
+            const isMine = currentPlayer?.teamId === team.id;
+            return (
+              <div
+                key={team.id}
+                className="p-3 rounded-lg bg-gray-800 border-2"
+                style={{ borderColor: team.color }}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-bold" style={{ color: team.color }}>
+                    {team.name}
+                  </span>
+                  {currentPlayer && !isMine && (
+                    <button
+                      onClick={() => onChooseTeam(team.id)}
+                      className="text-xs px-2 py-1 rounded bg-gray-600 hover:bg-gray-500"
+                    >
+                      Join
+                    </button>
+                  )}
+                </div>
+                <div className="text-sm text-gray-300 space-y-1">
+                  {members.length === 0 && <div className="text-gray-500">Nobody yet</div>}
+                  {members.map((player) => (
+                    <div key={player.id} className={player.id === currentPlayer?.id ? 'text-yellow-400' : ''}>
+                      {player.username}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {isHost && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <label htmlFor="teamCount" className="text-sm text-gray-300">
+              Teams:
+            </label>
+            <select
+              id="teamCount"
+              value={names.length}
+              onChange={(e) => setTeamCount(Number(e.target.value))}
+              className="px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white"
+            >
+              {Array.from({ length: MAX_TEAMS - MIN_TEAMS + 1 }, (_, i) => MIN_TEAMS + i).map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {names.map((name, i) => (
+              <input
+                key={i}
+                type="text"
+                value={name}
+                aria-label={`Team ${i + 1} name`}
+                onChange={(e) => setNames(names.map((current, j) => (j === i ? e.target.value : current)))}
+                maxLength={MAX_TEAM_NAME_LENGTH}
+                className="px-3 py-1 bg-gray-700 border border-gray-600 rounded-lg text-white"
+                placeholder="Team or flair name"
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onSetTeams(names.map((name) => name.trim()))}
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-sm font-semibold"
+            >
+              {teams.length > 0 ? 'Update Teams' : 'Create Teams'}
+            </button>
+            {teams.length > 0 && (
+              <>
+                <button
+                  onClick={onBalanceTeams}
+                  className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-500 text-sm font-semibold"
+                >
+                  Auto-balance
+                </button>
+                <button
+                  onClick={() => onSetTeams([])}
+                  className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-500 text-sm font-semibold"
+                >
+                  No Teams
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import { useCallback, useState } from 'react';
+
+export interface Announcement {
+  text: string;
+  at: number; // Distinguishes repeats of the same text so they are read out again
+}
+
+/** Messages for screen readers, rendered through `LiveRegion`. */
+export const useAnnouncer = () => {
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+
+  const announce = useCallback((text: string) => {
+    setAnnouncement({ text, at: Date.now() });
+  }, []);
+
+  return { announcement, announce };
+};
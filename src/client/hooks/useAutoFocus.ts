@@ -0,0 +1,12 @@
+import { useEffect, useRef } from 'react';
+
+/** Moves focus to the returned ref whenever `key` changes, e.g. when a new screen appears. */
+export const useAutoFocus = <T extends HTMLElement>(key?: string) => {
+  const ref = useRef<T>(null);
+
+  useEffect(() => {
+    ref.current?.focus();
+  }, [key]);
+
+  return ref;
+};
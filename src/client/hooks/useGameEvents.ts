@@ -0,0 +1,201 @@
+import { useEffect, useRef } from 'react';
+import { GameEvent, GameView } from '../../shared/types/game';
+import { callApi } from '../api';
+
+const EVENTS_POLL_INTERVAL = 1000; // Dev stand-in for Reddit's realtime service
+
+/** Folds a realtime event into the last known game state. */
+export const applyGameEvent = (gameState: GameView, event: GameEvent): GameView => {
+  switch (event.type) {
+    case 'player-joined': {
+      if (gameState.players[event.player.id]) return gameState;
+
+      const { [event.player.id]: _seated, ...spectators } = gameState.spectators ?? {};
+      return {
+        ...gameState,
+        players: { ...gameState.players, [event.player.id]: event.player },
+        ...(gameState.spectators && { spectators }),
+      };
+    }
+
+    case 'spectator-updated':
+      return {
+        ...gameState,
+        spectators: { ...gameState.spectators, [event.spectator.id]: event.spectator },
+      };
+
+    case 'player-left': {
+      const { [event.playerId]: _spectator, ...spectators } = gameState.spectators ?? {};
+      const { [event.playerId]: player, ...players } = gameState.players;
+
+      // Leavers stay in the results of a finished round
+      return {
+        ...gameState,
+        players: player && gameState.phase === 'ended' ? { ...players, [player.id]: { ...player, leftAt: event.at } } : players,
+        ...(gameState.spectators && { spectators }),
+      };
+    }
+
+    case 'host-changed':
+      return { ...gameState, host: event.host };
+
+    case 'impostor-found': {
+      const player = gameState.players[event.playerId];
+      if (!player) return gameState;
+
+      // Only our own entry lists found impostors; everyone else just has a count
+      const foundImpostors =
+        player.foundImpostors && !player.foundImpostors.includes(event.impostorId)
+          ? [...player.foundImpostors, event.impostorId]
+          : player.foundImpostors;
+
+      // Shared finds arrive with the impostor revealed; independent finds stay private
+      const { impostor } = event;
+      const impostors =
+        impostor && !gameState.impostors.some((imp) => imp.id === impostor.id)
+          ? [...gameState.impostors, impostor]
+          : gameState.impostors;
+
+      return {
+        ...gameState,
+        players: {
+          ...gameState.players,
+          [player.id]: {
+            ...player,
+            ...(foundImpostors && { foundImpostors }),
+            foundCount: event.foundCount,
+            score: event.score,
+            ...(event.timeCompleted && { timeCompleted: event.timeCompleted }),
+          },
+        },
+        impostors,
+        ...(event.teamScore !== undefined && { teamScore: event.teamScore }),
+      };
+    }
+
+    case 'impostor-missed': {
+      const player = gameState.players[event.playerId];
+      if (!player) return gameState;
+
+      return {
+        ...gameState,
+        players: {
+          ...gameState.players,
+          [player.id]: { ...player, score: event.score, misses: event.misses },
+        },
+        ...(event.teamScore !== undefined && { teamScore: event.teamScore }),
+      };
+    }
+
+    case 'power-up-used': {
+      const player = gameState.players[event.playerId];
+      if (!player) return gameState;
+
+      return {
+        ...gameState,
+        players: {
+          ...gameState.players,
+          [player.id]: {
+            ...player,
+            score: event.score,
+            charges: event.charges,
+            powerUps: [...player.powerUps, { powerUp: event.powerUp, at: event.at, cost: event.cost }],
+          },
+        },
+        ...(event.teamScore !== undefined && { teamScore: event.teamScore }),
+        ...(event.frozenUntil !== undefined && { frozenUntil: event.frozenUntil }),
+      };
+    }
+
+    case 'settings-changed': {
+      const { teamScore: _teamScore, ...rest } = gameState;
+      return {
+        ...rest,
+        ...event.settings,
+        sprites: event.sprites,
+        ...(event.settings.mode === 'coop' && { teamScore: gameState.teamScore ?? 0 }),
+      };
+    }
+
+    case 'teams-changed': {
+      const { teams: _teams, ...rest } = gameState;
+      const players = Object.fromEntries(
+        Object.entries(gameState.players).map(([id, player]) => {
+          const { teamId: _teamId, ...withoutTeam } = player;
+          const teamId = event.assignments[id];
+          return [id, teamId ? { ...withoutTeam, teamId } : withoutTeam];
+        })
+      );
+      return { ...rest, players, ...(event.teams.length > 0 && { teams: event.teams }) };
+    }
+
+    case 'phase-changed':
+      if (event.phase === 'playing') {
+        return {
+          ...gameState,
+          phase: 'playing',
+          gameStartTime: event.at,
+          timeLeft: gameState.timeLimit,
+        };
+      }
+      if (event.phase === 'ended') {
+        return { ...gameState, phase: 'ended', gameEndTime: event.at, timeLeft: 0 };
+      }
+      return { ...gameState, phase: event.phase };
+
+    case 'round-started':
+      return { ...gameState, round: event.round };
+
+    case 'leaderboard-updated':
+      return {
+        ...gameState,
+        leaderboard: event.leaderboard,
+        ...(event.winner && { winner: event.winner }),
+        ...(event.teamLeaderboard && { teamLeaderboard: event.teamLeaderboard }),
+        ...(event.winningTeam && { winningTeam: event.winningTeam }),
+      };
+  }
+};
+
+/**
+ * Delivers game events pushed by the server. On Reddit they arrive from the Devvit app over
+ * postMessage; when the webview runs on its own (local dev) they are polled from /api/events.
+ */
+export const useGameEvents = (onEvent: (event: GameEvent) => void) => {
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    const handleMessage = (ev: MessageEvent) => {
+      if (ev.data?.type !== 'devvit-message') return;
+
+      const { message } = ev.data.data;
+      if (message?.type === 'gameEvent') {
+        onEventRef.current(message.event as GameEvent);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => {
+    // Inside Reddit the webview is framed and realtime messages come from the Devvit app
+    if (window.self !== window.top) return;
+
+    let cursor: number | undefined;
+    const poll = async () => {
+      const data = await callApi('events', { query: { ...(cursor !== undefined && { since: cursor }) } });
+      cursor = data.cursor;
+      data.events.forEach((event) => onEventRef.current(event));
+    };
+
+    const interval = setInterval(() => {
+      poll().catch((err: unknown) => console.error('Error polling game events:', err));
+    }, EVENTS_POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, []);
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ScenePoint, Viewport } from '../../shared/types/geometry';
+import { FULL_VIEWPORT, getViewportRect } from '../../shared/geometry';
+
+const GRID_SIZE = 10; // Cells across the visible part of the scene
+const FINE_STEP = 0.25; // Shift+arrow moves a quarter of a cell
+const KEY_ZOOM_STEP = 2;
+
+const ARROWS: Record<string, ScenePoint> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+};
+
+interface KeyboardCursorOptions {
+  viewport?: Viewport;
+  onGuess: (point: ScenePoint) => void;
+  onZoom?: (factor: number, focus: ScenePoint) => void;
+  onResetZoom?: () => void;
+  onPan?: (viewport: Viewport) => void;
+  onAnnounce?: (text: string) => void;
+}
+
+/**
+ * A grid cursor for playing without a pointer: arrows move it a cell at a time, Enter or Space
+ * guesses at its centre, and +/- zoom in on it so the cells shrink around small impostors.
+ */
+export const useKeyboardCursor = ({
+  viewport = FULL_VIEWPORT,
+  onGuess,
+  onZoom,
+  onResetZoom,
+  onPan,
+  onAnnounce,
+}: KeyboardCursorOptions) => {
+  const [cursor, setCursor] = useState<ScenePoint>({ x: 50, y: 50 });
+  const [active, setActive] = useState(false); // Hidden until the keyboard is used
+
+  const cellSize = 100 / viewport.zoom / GRID_SIZE;
+
+  const describe = (point: ScenePoint) => {
+    const cells = Math.round(GRID_SIZE * viewport.zoom);
+    const column = Math.min(cells, Math.floor(point.x / cellSize) + 1);
+    const row = Math.min(cells, Math.floor(point.y / cellSize) + 1);
+    return `Column ${column} of ${cells}, row ${row} of ${cells}`;
+  };
+
+  const move = (direction: ScenePoint, fine: boolean) => {
+    const step = cellSize * (fine ? FINE_STEP : 1);
+    const next = {
+      x: Math.min(100 - cellSize / 2, Math.max(cellSize / 2, cursor.x + direction.x * step)),
+      y: Math.min(100 - cellSize / 2, Math.max(cellSize / 2, cursor.y + direction.y * step)),
+    };
+    setCursor(next);
+    onAnnounce?.(describe(next));
+
+    // Drag the viewport along when the cursor walks off its edge
+    const visible = getViewportRect(viewport);
+    if (
+      next.x < visible.x ||
+      next.x > visible.x + visible.width ||
+      next.y < visible.y ||
+      next.y > visible.y + visible.height
+    ) {
+      onPan?.({ ...viewport, x: next.x - visible.width / 2, y: next.y - visible.height / 2 });
+    }
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    // Keys pressed on controls inside the scene, like the zoom buttons, are theirs to handle
+    if (event.target !== event.currentTarget) return;
+
+    const direction = ARROWS[event.key];
+    if (direction) {
+      event.preventDefault();
+      setActive(true);
+      move(direction, event.shiftKey);
+      return;
+    }
+
+    switch (event.key) {
+      case 'Enter':
+      case ' ':
+        event.preventDefault();
+        setActive(true);
+        onGuess(cursor);
+        break;
+      case '+':
+      case '=':
+        event.preventDefault();
+        setActive(true);
+        onZoom?.(KEY_ZOOM_STEP, cursor);
+        break;
+      case '-':
+      case '_':
+        event.preventDefault();
+        onZoom?.(1 / KEY_ZOOM_STEP, cursor);
+        break;
+      case '0':
+        event.preventDefault();
+        onResetZoom?.();
+        break;
+    }
+  };
+
+  return { cursor, cellSize, active, onKeyDown };
+};
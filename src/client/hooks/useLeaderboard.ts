@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { LeaderboardPeriod, SubredditLeaderboard } from '../../shared/types/leaderboard';
+import { DEFAULT_LEADERBOARD_PAGE as PAGE_SIZE } from '../../shared/leaderboard';
+import { callApi } from '../api';
+
+/** Pages through the subreddit's all-time or weekly leaderboard. */
+export const useLeaderboard = (period: LeaderboardPeriod) => {
+  const [page, setPage] = useState(0);
+  const [leaderboard, setLeaderboard] = useState<SubredditLeaderboard | null>(null);
+  const [error, setError] = useState('');
+
+  // Switching boards starts from the top again
+  useEffect(() => {
+    setPage(0);
+  }, [period]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    callApi('leaderboard', { query: { period, offset: page * PAGE_SIZE, limit: PAGE_SIZE } })
+      .then((data) => {
+        if (cancelled) return;
+        setLeaderboard(data.leaderboard);
+        setError('');
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load leaderboard');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [period, page]);
+
+  const pageCount = leaderboard ? Math.max(1, Math.ceil(leaderboard.total / PAGE_SIZE)) : 1;
+
+  return {
+    leaderboard,
+    error,
+    page,
+    pageCount,
+    nextPage: useCallback(() => setPage((p) => Math.min(p + 1, pageCount - 1)), [pageCount]),
+    previousPage: useCallback(() => setPage((p) => Math.max(p - 1, 0)), []),
+  };
+};
@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { GameEvent, GameSettings, GameView, PowerUp, PowerUpEffect } from '../../shared/types/game';
+import { ApiErrorCode } from '../../shared/types/errors';
+import { SceneClick, ScenePoint } from '../../shared/types/geometry';
+import { HEARTBEAT_INTERVAL_MS } from '../../shared/presence';
+import type { NewGameOptions } from '../components/GameLobby';
+import { applyGameEvent, useGameEvents } from './useGameEvents';
+import { ApiError, callApi } from '../api';
+
+const POLL_INTERVAL = 10000; // Full resync in case a realtime event was missed
+const TIMER_INTERVAL = 1000; // Local clock tick between refreshes
+
+/** The last request that failed. There is no code when the server could not be reached at all. */
+export interface GameError {
+  code?: ApiErrorCode;
+  message: string;
+}
+
+const toGameError = (err: unknown, fallback: string): GameError =>
+  err instanceof ApiError
+    ? { code: err.data.code, message: err.message }
+    : { message: err instanceof Error ? err.message : fallback };
+
+/** What happened to the player's last click on the board. */
+export interface FindFeedback {
+  result: 'hit' | 'miss' | 'throttled';
+  penalty: number;
+  at: number;
+}
+
+export const useOnlineGame = () => {
+  const [gameState, setGameState] = useState<GameView | undefined>(undefined);
+  const [syncedAt, setSyncedAt] = useState(0);
+  const [now, setNow] = useState(0);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [error, setError] = useState<GameError | null>(null);
+  const [lastFind, setLastFind] = useState<FindFeedback | null>(null);
+  const [cooldownUntil, setCooldownUntil] = useState(0);
+  const [powerUpEffect, setPowerUpEffect] = useState<(PowerUpEffect & { usedAt: number }) | null>(null);
+
+  const currentPlayer = (playerId && gameState?.players[playerId]) || null;
+  const currentSpectator = (playerId && gameState?.spectators?.[playerId]) || null;
+
+  const applyGameState = useCallback((next: GameView | undefined) => {
+    setGameState(next);
+    setSyncedAt(Date.now());
+    setNow(Date.now());
+  }, []);
+
+  const refresh = useCallback(() => {
+    callApi('gameState')
+      .then((data) => {
+        setPlayerId(data.playerId);
+        applyGameState(data.gameState);
+      })
+      .catch(() => {
+        // No game yet; the lobby offers to create one
+      });
+  }, [applyGameState]);
+
+  // Pick up a game that already exists on this post
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useGameEvents(
+    useCallback(
+      (event: GameEvent) => {
+        // Someone created the game after we loaded; fetch it whole
+        if (!gameState) {
+          refresh();
+          return;
+        }
+
+        setGameState((prev) => prev && applyGameEvent(prev, event));
+        if (event.type === 'player-left' && event.kicked && event.playerId === playerId) {
+          setError({ code: 'kicked', message: 'The host removed you from this game' });
+        }
+        if (event.type === 'phase-changed') {
+          setSyncedAt(Date.now());
+          setNow(Date.now());
+        }
+
+        // The full layout and seed are only revealed once the round is over
+        if (event.type === 'phase-changed' && event.phase === 'ended') {
+          refresh();
+        }
+
+        // The host opened a rematch, which replaces the level and resets every score
+        if (event.type === 'round-started') {
+          refresh();
+        }
+
+        // Someone froze the clock; resync so the countdown pauses from the right second
+        if (event.type === 'power-up-used' && event.frozenUntil) {
+          refresh();
+        }
+      },
+      [gameState, playerId, refresh]
+    )
+  );
+
+  // Keep the lobby and the board in sync with the server, which also ends the round
+  const phase = gameState?.phase;
+  useEffect(() => {
+    if (phase !== 'waiting' && phase !== 'playing') return;
+
+    const interval = setInterval(() => {
+      callApi('gameState')
+        .then((data) => applyGameState(data.gameState))
+        .catch((err: unknown) => console.error('Error refreshing game state:', err));
+    }, POLL_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [phase, applyGameState]);
+
+  // Let the server know we still have the post open; a hidden tab reports in as soon as it is back
+  const present = !!(currentPlayer || currentSpectator);
+  useEffect(() => {
+    if (!present) return;
+
+    const beat = () => {
+      callApi('heartbeat').catch((err: unknown) =>
+        console.error('Error sending heartbeat:', err)
+      );
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') beat();
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [present]);
+
+  // Count the clock down locally between refreshes
+  useEffect(() => {
+    if (phase !== 'playing') return;
+
+    const interval = setInterval(() => setNow(Date.now()), TIMER_INTERVAL);
+    return () => clearInterval(interval);
+  }, [phase]);
+
+  const displayedState = useMemo(() => {
+    if (gameState?.phase !== 'playing' || gameState.timeLeft === undefined) return gameState;
+
+    // The clock stands still until a freeze runs out
+    const elapsed = Math.floor(Math.max(0, now - Math.max(syncedAt, gameState.frozenUntil ?? 0)) / 1000);
+    return { ...gameState, timeLeft: Math.max(0, gameState.timeLeft - elapsed) };
+  }, [gameState, now, syncedAt]);
+
+  const joinGame = useCallback(async (username: string, options?: NewGameOptions) => {
+    try {
+      const data = await callApi('join', { body: { username, ...options } });
+      setPlayerId(data.playerId);
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to join game'));
+    }
+  }, [applyGameState]);
+
+  const spectate = useCallback(async (username: string) => {
+    try {
+      const data = await callApi('spectate', { body: { username } });
+      setPlayerId(data.playerId);
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to watch game'));
+    }
+  }, [applyGameState]);
+
+  const setQueued = useCallback(async (queued: boolean) => {
+    try {
+      const data = await callApi('queue', { body: { queued } });
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to update queue'));
+    }
+  }, [applyGameState]);
+
+  const leaveGame = useCallback(async () => {
+    try {
+      const data = await callApi('leave');
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to leave game'));
+    }
+  }, [applyGameState]);
+
+  const kickPlayer = useCallback(async (targetId: string) => {
+    try {
+      const data = await callApi('kick', { body: { playerId: targetId } });
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to remove player'));
+    }
+  }, [applyGameState]);
+
+  const startGame = useCallback(async () => {
+    try {
+      const data = await callApi('startGame');
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to start game'));
+    }
+  }, [applyGameState]);
+
+  const rematch = useCallback(async () => {
+    try {
+      const data = await callApi('rematch');
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to start rematch'));
+    }
+  }, [applyGameState]);
+
+  const updateSettings = useCallback(async (settings: Partial<GameSettings>) => {
+    try {
+      const data = await callApi('settings', { body: settings });
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to update settings'));
+    }
+  }, [applyGameState]);
+
+  const setTeams = useCallback(async (names: string[]) => {
+    try {
+      const data = await callApi('teams', { body: { names } });
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to set up teams'));
+    }
+  }, [applyGameState]);
+
+  const balanceTeams = useCallback(async () => {
+    try {
+      const data = await callApi('balanceTeams');
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to balance teams'));
+    }
+  }, [applyGameState]);
+
+  const chooseTeam = useCallback(async (teamId: string) => {
+    try {
+      const data = await callApi('joinTeam', { body: { teamId } });
+      applyGameState(data.gameState);
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to join team'));
+    }
+  }, [applyGameState]);
+
+  const findImpostor = useCallback(async (click: SceneClick) => {
+    // The server would only reject these while we are cooling down
+    if (Date.now() < cooldownUntil) return;
+
+    try {
+      const data = await callApi('findImpostor', { body: click });
+      applyGameState(data.gameState);
+      setLastFind({ result: data.found ? 'hit' : 'miss', penalty: data.penalty, at: Date.now() });
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 429) {
+        setCooldownUntil(Date.now() + (err.data.retryAfter ?? 0));
+        setLastFind({ result: 'throttled', penalty: 0, at: Date.now() });
+        return;
+      }
+      console.error('Error finding impostor:', err);
+    }
+  }, [applyGameState, cooldownUntil]);
+
+  const activatePowerUp = useCallback(async (powerUp: PowerUp, point?: ScenePoint) => {
+    try {
+      const data = await callApi('powerUp', { body: { powerUp, ...point } });
+      applyGameState(data.gameState);
+      setPowerUpEffect({ ...data.effect, usedAt: Date.now() });
+      setError(null);
+    } catch (err) {
+      setError(toGameError(err, 'Failed to use power-up'));
+    }
+  }, [applyGameState]);
+
+  return {
+    gameState: displayedState,
+    currentPlayer,
+    currentSpectator,
+    error,
+    lastFind,
+    coolingDown: now < cooldownUntil,
+    powerUpEffect,
+    activatePowerUp,
+    joinGame,
+    spectate,
+    setQueued,
+    leaveGame,
+    kickPlayer,
+    startGame,
+    rematch,
+    updateSettings,
+    setTeams,
+    balanceTeams,
+    chooseTeam,
+    findImpostor,
+  };
+};
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { PlayerStats } from '../../shared/types/stats';
+import { callApi } from '../api';
+
+/** Loads a player's profile stats, or the current player's when no id is given. */
+export const usePlayerStats = (userId?: string) => {
+  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setStats(null);
+    (userId ? callApi('userStats', { params: { id: userId } }) : callApi('myStats'))
+      .then((data) => {
+        if (cancelled) return;
+        setStats(data.stats);
+        setError('');
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load stats');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return { stats, error };
+};
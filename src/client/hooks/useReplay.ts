@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { GameReplay } from '../../shared/types/replay';
+import { callApi } from '../api';
+
+export const useReplay = (gameId: string, round?: number) => {
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    callApi('replay', { params: { gameId }, query: { ...(round !== undefined && { round }) } })
+      .then((data) => {
+        if (cancelled) return;
+        setReplay(data.replay);
+        setError('');
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load replay');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, round]);
+
+  return { replay, error };
+};
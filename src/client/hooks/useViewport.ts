@@ -0,0 +1,142 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ScenePoint, Viewport } from '../../shared/types/geometry';
+import { FULL_VIEWPORT, clampViewport, panViewport, zoomViewport } from '../../shared/geometry';
+
+const WHEEL_ZOOM_STEP = 1.0015; // per pixel of wheel delta
+const DRAG_THRESHOLD = 6; // px before a press counts as a pan rather than a click
+
+interface PointerPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * Scroll-zoom, pinch-zoom and drag-pan for the element `containerRef` is attached to. Pans that
+ * end over the scene swallow the click that follows, so dragging never reports a find.
+ */
+export const useViewport = () => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState<Viewport>(FULL_VIEWPORT);
+
+  const pointers = useRef(new Map<number, PointerPosition>());
+  const pressStart = useRef<PointerPosition | null>(null);
+  const dragged = useRef(false);
+
+  // Pointer position as a fraction of the container
+  const toFraction = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      fx: (clientX - rect.left) / rect.width,
+      fy: (clientY - rect.top) / rect.height,
+      width: rect.width,
+      height: rect.height,
+    };
+  };
+
+  // React registers wheel listeners as passive, which would let the page scroll as well
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const fx = (event.clientX - rect.left) / rect.width;
+      const fy = (event.clientY - rect.top) / rect.height;
+      setViewport((current) => zoomViewport(current, Math.pow(WHEEL_ZOOM_STEP, -event.deltaY), fx, fy));
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const onPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    if (pointers.current.size === 1) {
+      pressStart.current = { x: event.clientX, y: event.clientY };
+      dragged.current = false;
+    }
+  };
+
+  const onPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) return;
+
+    const position = { x: event.clientX, y: event.clientY };
+    const start = pressStart.current;
+    if (start && Math.hypot(position.x - start.x, position.y - start.y) > DRAG_THRESHOLD) {
+      dragged.current = true;
+    }
+
+    if (pointers.current.size === 2) {
+      // Pinch: zoom by the change in finger spread around the midpoint
+      const [other] = [...pointers.current.entries()].filter(([id]) => id !== event.pointerId);
+      if (other) {
+        const [, otherPosition] = other;
+        const before = Math.hypot(previous.x - otherPosition.x, previous.y - otherPosition.y);
+        const after = Math.hypot(position.x - otherPosition.x, position.y - otherPosition.y);
+        const mid = toFraction((position.x + otherPosition.x) / 2, (position.y + otherPosition.y) / 2);
+        if (mid && before > 0) {
+          setViewport((current) => zoomViewport(current, after / before, mid.fx, mid.fy));
+        }
+      }
+    } else if (dragged.current) {
+      const frame = toFraction(position.x, position.y);
+      if (frame) {
+        const dfx = (position.x - previous.x) / frame.width;
+        const dfy = (position.y - previous.y) / frame.height;
+        setViewport((current) => panViewport(current, dfx, dfy));
+      }
+    }
+
+    pointers.current.set(event.pointerId, position);
+  };
+
+  const onPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(event.pointerId);
+    if (pointers.current.size === 0) pressStart.current = null;
+  };
+
+  const onClickCapture = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!dragged.current) return;
+    dragged.current = false;
+    event.stopPropagation();
+  };
+
+  // Zooms around the middle of the screen, or around a scene point that should stay put
+  const zoomBy = useCallback((factor: number, focus?: ScenePoint) => {
+    setViewport((current) =>
+      focus
+        ? zoomViewport(
+            current,
+            factor,
+            ((focus.x - current.x) * current.zoom) / 100,
+            ((focus.y - current.y) * current.zoom) / 100
+          )
+        : zoomViewport(current, factor)
+    );
+  }, []);
+
+  const moveTo = useCallback((next: Viewport) => {
+    setViewport(clampViewport(next));
+  }, []);
+
+  const reset = useCallback(() => setViewport(FULL_VIEWPORT), []);
+
+  return {
+    containerRef,
+    viewport,
+    zoomBy,
+    moveTo,
+    reset,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onPointerLeave: onPointerUp,
+      onClickCapture,
+    },
+  };
+};
@@ -1,8 +1,29 @@
-import { Devvit, useState, useWebView } from '@devvit/public-api';
+import { Devvit, useChannel, useState, useWebView } from '@devvit/public-api';
+import { END_ROUND_JOB, finishRound } from '../server/core/game';
+import { getGameChannel } from '../server/core/realtime';
 
 Devvit.configure({
   redditAPI: true,
   redis: true,
+  realtime: true,
+});
+
+// Ends a round when its time limit is up, scheduled by startGame on the server
+Devvit.addSchedulerJob<{ postId: string; roundStartedAt: number }>({
+  name: END_ROUND_JOB,
+  onRun: async (event, context) => {
+    if (!event.data) return;
+    try {
+      await finishRound({
+        redis: context.redis,
+        realtime: context.realtime,
+        postId: event.data.postId,
+        roundStartedAt: event.data.roundStartedAt,
+      });
+    } catch (error) {
+      console.error('Error ending round:', error);
+    }
+  },
 });
 
 export const Preview: Devvit.BlockComponent<{ text?: string }> = ({ text = 'Loading...' }) => {
@@ -57,6 +78,17 @@ Devvit.addCustomPostType({
       },
     });
 
+    // Forward realtime game events from the server to the web view
+    const channel = useChannel({
+      name: getGameChannel(context.postId ?? 'none'),
+      onMessage: (event) => {
+        webView.postMessage({ type: 'gameEvent', event });
+      },
+    });
+    if (context.postId) {
+      channel.subscribe();
+    }
+
     const boltUrl = 'https://bolt.new/~/github-qben3rsr';
 
     // Render the custom post type
@@ -0,0 +1,221 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getImpostorCenter } from '../../shared/geometry';
+import { FREEZE_DURATION_MS } from '../../shared/powerUps';
+import { DROP_AFTER_MS } from '../../shared/presence';
+import { Impostor } from '../../shared/types/game';
+import { MockRealtime, MockRedis, MockTransaction } from '../dev';
+import {
+  createGame,
+  findImpostor,
+  finishRound,
+  getGame,
+  joinGame,
+  leaveGame,
+  mutateGame,
+  queueForNextRound,
+  sendHeartbeat,
+  startGame,
+} from './game';
+import { getLeaderboard } from './leaderboard';
+import { TRANSACTION_CONFLICT_MESSAGE } from './transaction';
+
+const postId = 'post_1';
+const subredditId = 'sub_1';
+const playerIds = Array.from({ length: 8 }, (_, index) => `player_${index}`);
+
+let redis: MockRedis;
+let realtime: MockRealtime;
+const scheduler = { runJob: async () => 'job' };
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  redis = new MockRedis();
+  realtime = new MockRealtime();
+  // Independent boards, so every player can find every impostor without getting in each other's way
+  await createGame({
+    redis,
+    postId,
+    subredditId,
+    hostId: 'host',
+    hostUsername: 'host',
+    mode: 'independent',
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const joinAll = () =>
+  Promise.all(
+    playerIds.map((playerId) => joinGame({ redis, realtime, postId, playerId, username: playerId }))
+  );
+
+// Every player clicks a different impostor at the same moment, `offset` places along the level
+const findAll = (impostors: Impostor[], offset: number) =>
+  Promise.all(
+    playerIds.map((playerId, index) => {
+      const { x, y } = getImpostorCenter(impostors[(index + offset) % impostors.length]!);
+      return findImpostor({ redis, realtime, postId, playerId, x, y });
+    })
+  );
+
+describe('concurrent writes', () => {
+  it('keeps every join', async () => {
+    await joinAll();
+
+    const gameState = await getGame({ redis, postId });
+    expect(Object.keys(gameState!.players).sort()).toEqual(['host', ...playerIds].sort());
+  });
+
+  it('keeps every find', async () => {
+    await joinAll();
+    await startGame({ redis, realtime, scheduler, postId, playerId: 'host' });
+    const { impostors } = (await getGame({ redis, postId }))!;
+
+    const results = await findAll(impostors, 0);
+
+    const gameState = (await getGame({ redis, postId }))!;
+    results.forEach((result, index) => {
+      expect(result.found).toBe(true);
+      expect(gameState.players[playerIds[index]!]!.foundImpostors).toHaveLength(1);
+    });
+  });
+
+  it('ends the round once and records every score', async () => {
+    await joinAll();
+    await startGame({ redis, realtime, scheduler, postId, playerId: 'host' });
+    const { impostors } = (await getGame({ redis, postId }))!;
+    await findAll(impostors, 0);
+
+    // The end-of-round job can fire while players are still clicking, and more than once
+    await Promise.all([
+      finishRound({ redis, realtime, postId }),
+      finishRound({ redis, realtime, postId }),
+      findAll(impostors, 1),
+    ]);
+
+    const gameState = (await getGame({ redis, postId }))!;
+    expect(gameState.phase).toBe('ended');
+
+    const leaderboard = await getLeaderboard({ redis, subredditId, period: 'all-time', limit: 50 });
+    const recorded = Object.fromEntries(
+      leaderboard.entries.map((entry) => [entry.userId, entry.score])
+    );
+    expect(recorded).toEqual(
+      Object.fromEntries(
+        playerIds.map((playerId) => [playerId, gameState.players[playerId]!.score])
+      )
+    );
+  });
+});
+
+describe('finishRound', () => {
+  // A running round whose clock has been frozen once, so its end moved back by the freeze
+  const startFrozenRound = async () => {
+    await startGame({ redis, realtime, scheduler, postId, playerId: 'host' });
+    const gameState = (await mutateGame({
+      redis,
+      realtime,
+      postId,
+      mutate: (gameState) => {
+        gameState.frozenUntil = Date.now() + FREEZE_DURATION_MS;
+        gameState.frozenMs = FREEZE_DURATION_MS;
+      },
+    }))!;
+    return gameState.gameStartTime! + gameState.timeLimit * 1000 + FREEZE_DURATION_MS;
+  };
+
+  it('ends a frozen round when its job fires just before the deadline', async () => {
+    const endsAt = await startFrozenRound();
+    vi.spyOn(Date, 'now').mockReturnValue(endsAt - 5);
+
+    const gameState = await finishRound({ redis, realtime, postId });
+    expect(gameState?.phase).toBe('ended');
+  });
+
+  it('leaves a frozen round running when the job from before the freeze fires', async () => {
+    const endsAt = await startFrozenRound();
+    vi.spyOn(Date, 'now').mockReturnValue(endsAt - FREEZE_DURATION_MS);
+
+    const gameState = await finishRound({ redis, realtime, postId });
+    expect(gameState?.phase).toBe('playing');
+  });
+});
+
+describe('seat queue', () => {
+  // A full two-seat lobby with one spectator waiting for a seat
+  beforeEach(async () => {
+    await mutateGame({
+      redis,
+      realtime,
+      postId,
+      mutate: (gameState) => {
+        gameState.maxPlayers = 2;
+      },
+    });
+    await joinGame({ redis, realtime, postId, playerId: 'seated', username: 'seated' });
+    await joinGame({ redis, realtime, postId, playerId: 'waiting', username: 'waiting' });
+    await queueForNextRound({ redis, realtime, postId, playerId: 'waiting', queued: true });
+  });
+
+  it('seats the next in line when a player leaves the lobby', async () => {
+    await leaveGame({ redis, realtime, postId, playerId: 'seated' });
+
+    const gameState = (await getGame({ redis, postId }))!;
+    expect(Object.keys(gameState.players).sort()).toEqual(['host', 'waiting']);
+    expect(gameState.spectators?.['waiting']).toBeUndefined();
+  });
+
+  it('seats the next in line when an idle player is dropped', async () => {
+    // Only the host keeps the post open past the idle limit
+    const later = Date.now() + DROP_AFTER_MS + 1000;
+    vi.spyOn(Date, 'now').mockReturnValue(later);
+    await sendHeartbeat({ redis, realtime, postId, playerId: 'host' });
+
+    const gameState = (await getGame({ redis, postId }))!;
+    expect(Object.keys(gameState.players).sort()).toEqual(['host', 'waiting']);
+    expect(gameState.spectators?.['waiting']).toBeUndefined();
+  });
+});
+
+describe('mutateGame', () => {
+  it('gives up once its retries run out', async () => {
+    vi.spyOn(MockTransaction.prototype, 'exec').mockRejectedValue(
+      new Error(TRANSACTION_CONFLICT_MESSAGE)
+    );
+
+    await expect(mutateGame({ redis, realtime, postId, mutate: () => {} })).rejects.toThrow(
+      /too busy/
+    );
+  });
+
+  it('retries a write that lost a race', async () => {
+    const exec = vi
+      .spyOn(MockTransaction.prototype, 'exec')
+      .mockRejectedValueOnce(new Error(TRANSACTION_CONFLICT_MESSAGE));
+
+    const gameState = await mutateGame({
+      redis,
+      realtime,
+      postId,
+      mutate: (gameState) => {
+        gameState.maxPlayers = 2;
+      },
+    });
+    expect(gameState?.maxPlayers).toBe(2);
+    expect(exec).toHaveBeenCalledTimes(2);
+    expect((await getGame({ redis, postId }))?.maxPlayers).toBe(2);
+  });
+
+  it('rethrows a failed write instead of retrying it', async () => {
+    const exec = vi
+      .spyOn(MockTransaction.prototype, 'exec')
+      .mockRejectedValue(new Error('Connection lost'));
+
+    await expect(mutateGame({ redis, realtime, postId, mutate: () => {} })).rejects.toThrow(
+      'Connection lost'
+    );
+    expect(exec).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,276 +1,1444 @@
 import { Context } from '@devvit/public-api';
-import { RedisClient } from '@devvit/redis';
-import { GameState, Player, Impostor } from '../../shared/types/game';
+import {
+  DifficultyMix,
+  GameEvent,
+  GameMode,
+  GameSettings,
+  GameState,
+  Player,
+  Impostor,
+  Spectator,
+  PowerUp,
+  PowerUpEffect,
+} from '../../shared/types/game';
+import { GameRejection } from '../../shared/types/errors';
+import { ReplayClick } from '../../shared/types/replay';
+import { ScoreEvent } from '../../shared/types/scoring';
+import { generateSeed } from '../../shared/random';
+import { DEFAULT_ASPECT, getImpostorCenter, hitsImpostor } from '../../shared/geometry';
+import {
+  FINDS_PER_CHARGE,
+  FREEZE_DURATION_MS,
+  getProximity,
+  MAGNIFIER_DURATION_MS,
+  MAGNIFIER_SCALE,
+  MAX_FREEZES_PER_PLAYER,
+  POWER_UP_COSTS,
+  STARTING_CHARGES,
+} from '../../shared/powerUps';
+import { DROP_AFTER_MS, getIdleTime, HEARTBEAT_INTERVAL_MS, HOST_IDLE_MS } from '../../shared/presence';
+import { getLedgerTotal, getStreakAfter, scoreEvent } from '../../shared/scoring';
+import { DEFAULT_SETTINGS, DIFFICULTIES } from '../../shared/settings';
+import { balanceTeams, getSmallestTeam, getTeamStandings, TEAM_COLORS } from '../../shared/teams';
+import { generateLevel, getLevelMix } from './level';
+import { publishGameEvents } from './realtime';
+import { LeaderboardRedis, recordRoundScores } from './leaderboard';
+import { recordRoundStats } from './stats';
+import { execTransaction, TransactionRedis } from './transaction';
+import { recordReplayClick, ReplayRedis } from './replay';
+import { getSprites, toPlayerView } from './view';
 
 const GAME_EXPIRY = 60 * 60 * 4; // 4 hours
-const TIME_LIMIT = 300; // 5 minutes
-const MIN_PLAYERS = 1;
-const MAX_PLAYERS = 20;
+const MAX_TX_ATTEMPTS = 10; // Optimistic transaction retries before giving up
+const TX_RETRY_DELAY_MS = 15; // Base backoff between retries, jittered to spread out writers
+const CLICK_BURST_LIMIT = 5; // Clicks allowed per burst window before a cooldown kicks in
+const CLICK_BURST_WINDOW_MS = 2000;
+const CLICK_COOLDOWN_MS = 3000;
+const ROUND_ARCHIVE_EXPIRY = 60 * 60 * 24 * 7; // Finished rounds stay viewable for a week
+const ROUND_END_TOLERANCE_MS = 1000; // How early a scheduled end-of-round job may fire and still count
+
+/** Everything a game write can touch, including the leaderboards, stats and replays it feeds. */
+type GameRedis = TransactionRedis &
+  LeaderboardRedis &
+  ReplayRedis & {
+    set(key: string, value: string, options?: { expiration?: Date }): Promise<unknown>;
+  };
 
 const getGameKey = (postId: string) => `game:${postId}` as const;
+const getRoundArchiveKey = (postId: string, round: number) => `game:${postId}:round:${round}` as const;
 
-// Predefined impostor locations for the crowd scene
-const IMPOSTOR_LOCATIONS: Omit<Impostor, 'id' | 'found' | 'foundBy' | 'foundAt'>[] = [
-  // Easy to spot (larger, more obvious)
-  { x: 15, y: 25, width: 8, height: 12, difficulty: 'easy' },
-  { x: 75, y: 40, width: 7, height: 11, difficulty: 'easy' },
-  { x: 45, y: 70, width: 8, height: 13, difficulty: 'easy' },
-  
-  // Medium difficulty (smaller, partially hidden)
-  { x: 30, y: 15, width: 5, height: 8, difficulty: 'medium' },
-  { x: 85, y: 60, width: 6, height: 9, difficulty: 'medium' },
-  { x: 20, y: 80, width: 5, height: 7, difficulty: 'medium' },
-  { x: 65, y: 20, width: 6, height: 8, difficulty: 'medium' },
-  
-  // Hard to spot (very small, well hidden)
-  { x: 55, y: 35, width: 3, height: 5, difficulty: 'hard' },
-  { x: 10, y: 55, width: 4, height: 6, difficulty: 'hard' },
-  { x: 90, y: 25, width: 3, height: 4, difficulty: 'hard' },
-  { x: 40, y: 85, width: 4, height: 5, difficulty: 'hard' },
-  { x: 70, y: 75, width: 3, height: 5, difficulty: 'hard' },
-];
+/** Scheduler job that closes a round once its time limit is up. */
+export const END_ROUND_JOB = 'end-round';
 
 export const createGame = async ({
   redis,
   postId,
+  subredditId,
   hostId,
   hostUsername,
+  mode = DEFAULT_SETTINGS.mode,
+  seed = generateSeed(),
+  difficultyMix = DEFAULT_SETTINGS.difficultyMix,
+  missPenalty = DEFAULT_SETTINGS.missPenalty,
 }: {
-  redis: Context['redis'] | RedisClient | any;
+  redis: GameRedis;
   postId: string;
+  subredditId: string;
   hostId: string;
   hostUsername: string;
-}): Promise<GameState> => {
-  // Generate impostors with unique IDs
-  const impostors: Impostor[] = IMPOSTOR_LOCATIONS.map((location, index) => ({
-    ...location,
-    id: `impostor_${index}`,
-    found: false,
-  }));
+  mode?: GameMode;
+  seed?: string;
+  difficultyMix?: DifficultyMix;
+  missPenalty?: number;
+}): Promise<GameState | null> => {
+  const impostors = generateLevel({ seed, mix: difficultyMix });
 
   const gameState: GameState = {
     id: postId,
+    subredditId,
+    mode,
+    seed,
+    round: 1,
+    difficultyMix: getLevelMix(impostors),
     phase: 'waiting',
     players: {},
     impostors,
     host: hostId,
-    timeLimit: TIME_LIMIT,
+    timeLimit: DEFAULT_SETTINGS.timeLimit,
+    minPlayers: DEFAULT_SETTINGS.minPlayers,
+    maxPlayers: DEFAULT_SETTINGS.maxPlayers,
+    missPenalty,
     leaderboard: [],
+    ...(mode === 'coop' && { teamScore: 0 }),
   };
 
-  const host: Player = {
-    id: hostId,
-    username: hostUsername,
-    score: 0,
-    foundImpostors: [],
-  };
+  gameState.players[hostId] = createPlayer(hostId, hostUsername);
 
-  gameState.players[hostId] = host;
+  // Only create if nobody else did in the meantime; callers join the existing game instead
+  const txn = await redis.watch(getGameKey(postId));
+  if (await redis.get(getGameKey(postId))) {
+    await txn.unwatch();
+    return null;
+  }
 
-  // Use set with expiration instead of setEx
-  await redis.set(getGameKey(postId), JSON.stringify(gameState), { expiration: new Date(Date.now() + GAME_EXPIRY * 1000) });
-  return gameState;
+  await txn.multi();
+  await txn.set(getGameKey(postId), JSON.stringify(gameState), { expiration: new Date(Date.now() + GAME_EXPIRY * 1000) });
+  return (await execTransaction(txn)) ? gameState : null;
 };
 
 export const getGame = async ({
   redis,
   postId,
 }: {
-  redis: Context['redis'] | RedisClient | any;
+  redis: GameRedis;
   postId: string;
 }): Promise<GameState | null> => {
   const gameData = await redis.get(getGameKey(postId));
-  return gameData ? JSON.parse(gameData) : null;
+  if (!gameData) return null;
+
+  const gameState: GameState = JSON.parse(gameData);
+  refreshTimeLeft(gameState);
+  return gameState;
+};
+
+/** A finished round from earlier on the post, as it stood when the rematch replaced it. */
+export const getArchivedRound = async ({
+  redis,
+  postId,
+  round,
+}: {
+  redis: GameRedis;
+  postId: string;
+  round: number;
+}): Promise<GameState | null> => {
+  const gameData = await redis.get(getRoundArchiveKey(postId, round));
+  return gameData ? (JSON.parse(gameData) as GameState) : null;
 };
 
 export const updateGame = async ({
   redis,
   gameState,
 }: {
-  redis: Context['redis'] | RedisClient | any;
+  redis: GameRedis;
   gameState: GameState;
 }): Promise<void> => {
   // Use set with expiration instead of setEx
   await redis.set(getGameKey(gameState.id), JSON.stringify(gameState), { expiration: new Date(Date.now() + GAME_EXPIRY * 1000) });
 };
 
+type EmitGameEvent = (event: GameEvent) => void;
+
+/**
+ * Applies `mutate` to the latest stored game inside a WATCH/MULTI transaction, retrying when
+ * another request wrote the game in between so concurrent updates are never lost. `mutate` can
+ * run more than once and must only change the game it is given; returning `false` skips the write.
+ * Events passed to `emit` are broadcast once the write has committed, and a round that ended in
+ * this write has its scores added to the leaderboards and player stats exactly once. `actorId` is
+ * whoever made the request: a write on their behalf counts as them being around.
+ */
+export const mutateGame = async ({
+  redis,
+  realtime,
+  postId,
+  actorId,
+  mutate,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  actorId?: string;
+  mutate: (gameState: GameState, emit: EmitGameEvent) => boolean | void;
+}): Promise<GameState | null> => {
+  const key = getGameKey(postId);
+
+  for (let attempt = 0; attempt < MAX_TX_ATTEMPTS; attempt++) {
+    const events: GameEvent[] = [];
+    const txn = await redis.watch(key);
+    const gameData = await redis.get(key);
+    if (!gameData) {
+      await txn.unwatch();
+      return null;
+    }
+
+    const gameState: GameState = JSON.parse(gameData);
+    refreshTimeLeft(gameState);
+    const emit: EmitGameEvent = (event) => events.push(event);
+    if (mutate(gameState, emit) === false) {
+      await txn.unwatch();
+      return gameState;
+    }
+    if (actorId) markActive(gameState, actorId, emit);
+
+    await txn.multi();
+    await txn.set(key, JSON.stringify(gameState), { expiration: new Date(Date.now() + GAME_EXPIRY * 1000) });
+    if (await execTransaction(txn)) {
+      await publishGameEvents({ realtime, postId, events });
+      if (events.some((event) => event.type === 'phase-changed' && event.phase === 'ended')) {
+        await onRoundEnded(redis, gameState);
+      }
+      return gameState;
+    }
+
+    const delay = TX_RETRY_DELAY_MS * (attempt + 1) * (0.5 + Math.random());
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+
+  throw new Error(`Game ${postId} is too busy, please try again`);
+};
+
+/** Bookkeeping that outlives the game blob; failures are logged so they never fail the request. */
+async function onRoundEnded(redis: GameRedis, gameState: GameState): Promise<void> {
+  try {
+    await recordRoundScores({ redis, gameState });
+  } catch (error) {
+    console.error(`Error recording scores for game ${gameState.id}:`, error);
+  }
+
+  try {
+    await recordRoundStats({ redis, gameState });
+  } catch (error) {
+    console.error(`Error recording player stats for game ${gameState.id}:`, error);
+  }
+}
+
+/**
+ * Seats a player. When the game is full they are added as a spectator instead, so nobody is
+ * turned away from a post they opened.
+ */
 export const joinGame = async ({
   redis,
+  realtime,
   postId,
   playerId,
   username,
 }: {
-  redis: Context['redis'] | RedisClient | any;
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
   postId: string;
   playerId: string;
   username: string;
-}): Promise<GameState | null> => {
-  const gameState = await getGame({ redis, postId });
-  if (!gameState) return null;
+}): Promise<{ gameState: GameState | null; spectating: boolean; rejection?: GameRejection }> => {
+  let spectating = false;
+  let rejection: GameRejection | undefined;
 
-  if (Object.keys(gameState.players).length >= MAX_PLAYERS) {
-    return null; // Game full
-  }
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      spectating = false;
+      rejection = getKickedRejection(gameState, playerId);
+      if (rejection) return false;
 
-  if (gameState.players[playerId]) {
-    return gameState; // Already in game
-  }
+      const player = gameState.players[playerId];
+      if (player) {
+        if (!player.leftAt) return false; // Already in game
+
+        // Changed their mind before the rematch
+        delete player.leftAt;
+        emit({ type: 'player-joined', player: toPlayerView(player) });
+        return;
+      }
+
+      if (Object.keys(gameState.players).length >= gameState.maxPlayers) {
+        spectating = true;
+        if (gameState.spectators?.[playerId]) return false; // Already watching
+        addSpectator(gameState, { id: playerId, username }, emit);
+        return;
+      }
+
+      seatPlayer(gameState, playerId, username, emit);
+    },
+  });
+
+  if (rejection) return { gameState, spectating, rejection };
+  return { gameState, spectating };
+};
+
+/** Watch the game without taking a seat, even if one is free. */
+export const spectateGame = async ({
+  redis,
+  realtime,
+  postId,
+  playerId,
+  username,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  playerId: string;
+  username: string;
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  let rejection: GameRejection | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = getKickedRejection(gameState, playerId);
+      if (rejection) return false;
+
+      if (gameState.players[playerId]) {
+        rejection = { code: 'already-playing', message: 'You are already playing' };
+        return false;
+      }
+      if (gameState.spectators?.[playerId]) return false;
+
+      addSpectator(gameState, { id: playerId, username }, emit);
+    },
+  });
+
+  if (rejection) return { gameState, rejection };
+  return { gameState };
+};
+
+/**
+ * Puts a spectator in line for the next free seat, or takes them out of it. Seats open up when
+ * the host raises the player cap, and queued spectators are seated first in the order they queued.
+ */
+export const queueForNextRound = async ({
+  redis,
+  realtime,
+  postId,
+  playerId,
+  queued,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  playerId: string;
+  queued: boolean;
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  let rejection: GameRejection | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = undefined;
+
+      const spectator = gameState.spectators?.[playerId];
+      if (!spectator) {
+        rejection = { code: 'not-spectating', message: 'Only spectators can queue' };
+        return false;
+      }
+      if (queued === !!spectator.queuedAt) return false;
+
+      if (queued) {
+        spectator.queuedAt = Date.now();
+      } else {
+        delete spectator.queuedAt;
+      }
+      emit({ type: 'spectator-updated', spectator: { ...spectator } });
+
+      // A seat may already be free while the lobby is still open
+      if (gameState.phase === 'waiting') seatQueuedSpectators(gameState, emit);
+    },
+  });
+
+  if (rejection) return { gameState, rejection };
+  return { gameState };
+};
 
-  const player: Player = {
-    id: playerId,
+function createPlayer(id: string, username: string): Player {
+  return {
+    id,
     username,
     score: 0,
+    ledger: [],
+    streak: 0,
     foundImpostors: [],
+    misses: 0,
+    charges: STARTING_CHARGES,
+    powerUps: [],
+    joinedAt: Date.now(),
   };
+}
+
+function seatPlayer(gameState: GameState, playerId: string, username: string, emit: EmitGameEvent): void {
+  const player = createPlayer(playerId, username);
 
   if (gameState.phase === 'playing') {
     player.timeStarted = Date.now();
   }
 
+  // Newcomers even out the teams, including late joiners mid-round
+  const team = gameState.teams && getSmallestTeam(gameState.teams, Object.values(gameState.players));
+  if (team) player.teamId = team.id;
+
   gameState.players[playerId] = player;
-  await updateGame({ redis, gameState });
-  return gameState;
-};
+  delete gameState.spectators?.[playerId];
+  emit({ type: 'player-joined', player: toPlayerView(player) });
+}
+
+function addSpectator(gameState: GameState, spectator: Spectator, emit: EmitGameEvent): void {
+  gameState.spectators = { ...gameState.spectators, [spectator.id]: spectator };
+  emit({ type: 'spectator-updated', spectator });
+}
+
+/** Fills free seats from the spectator queue, first come first served. */
+function seatQueuedSpectators(gameState: GameState, emit: EmitGameEvent): void {
+  const queue = Object.values(gameState.spectators ?? {})
+    .filter((spectator) => spectator.queuedAt)
+    .sort((a, b) => a.queuedAt! - b.queuedAt!);
+
+  for (const spectator of queue) {
+    if (Object.keys(gameState.players).length >= gameState.maxPlayers) break;
+    seatPlayer(gameState, spectator.id, spectator.username, emit);
+  }
+}
 
 export const startGame = async ({
   redis,
+  realtime,
+  scheduler,
   postId,
   playerId,
 }: {
-  redis: Context['redis'] | RedisClient | any;
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  scheduler: Pick<Context['scheduler'], 'runJob'>;
   postId: string;
   playerId: string;
-}): Promise<GameState | null> => {
-  const gameState = await getGame({ redis, postId });
-  if (!gameState) return null;
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  let rejection: GameRejection | undefined;
 
-  if (gameState.host !== playerId) return null; // Only host can start
-  if (gameState.phase !== 'waiting') return null; // Already started
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = undefined;
 
-  const playerCount = Object.keys(gameState.players).length;
-  if (playerCount < MIN_PLAYERS) return null; // Not enough players
+      if (gameState.host !== playerId) {
+        rejection = { code: 'not-host', message: 'Only the host can start the round' };
+        return false;
+      }
+      if (gameState.phase !== 'waiting') {
+        rejection = { code: 'already-started', message: 'The round has already started' };
+        return false;
+      }
 
-  gameState.phase = 'playing';
-  gameState.gameStartTime = Date.now();
-  gameState.timeLeft = TIME_LIMIT;
+      const playerCount = Object.keys(gameState.players).length;
+      if (playerCount < gameState.minPlayers) {
+        rejection = {
+          code: 'not-enough-players',
+          message: `Needs ${gameState.minPlayers} players to start; ${playerCount} joined so far`,
+        };
+        return false;
+      }
 
-  // Set start time for all players
-  Object.values(gameState.players).forEach((player) => {
-    player.timeStarted = Date.now();
+      gameState.phase = 'playing';
+      gameState.gameStartTime = Date.now();
+      gameState.timeLeft = gameState.timeLimit;
+
+      // Set start time for all players
+      Object.values(gameState.players).forEach((player) => {
+        player.timeStarted = Date.now();
+      });
+      emit({ type: 'phase-changed', phase: 'playing', at: gameState.gameStartTime });
+    },
   });
 
-  await updateGame({ redis, gameState });
-  return gameState;
+  if (!gameState) return { gameState: null };
+  if (rejection) return { gameState, rejection };
+
+  // The server closes the round itself, even if every player has left the post
+  await scheduleRoundEnd(scheduler, postId, gameState);
+
+  return { gameState };
+};
+
+/** When the clock runs out, counting every freeze so far in full. */
+function getRoundEndsAt(gameState: GameState): number {
+  return (gameState.gameStartTime ?? Date.now()) + gameState.timeLimit * 1000 + (gameState.frozenMs ?? 0);
+}
+
+async function scheduleRoundEnd(
+  scheduler: Pick<Context['scheduler'], 'runJob'>,
+  postId: string,
+  gameState: GameState
+): Promise<void> {
+  if (!gameState.gameStartTime) return;
+
+  try {
+    await scheduler.runJob({
+      name: END_ROUND_JOB,
+      runAt: new Date(getRoundEndsAt(gameState)),
+      data: { postId, roundStartedAt: gameState.gameStartTime },
+    });
+  } catch (error) {
+    console.error('Error scheduling end of round:', error);
+  }
+}
+
+/**
+ * Applies the host's lobby settings. Changing the difficulty mix rebuilds the level from the same
+ * seed, so the impostors everyone will hunt always match what the lobby shows.
+ */
+export const updateSettings = async ({
+  redis,
+  realtime,
+  postId,
+  playerId,
+  settings,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  playerId: string;
+  settings: Partial<GameSettings>;
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  let rejection: GameRejection | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = undefined;
+
+      if (gameState.host !== playerId) {
+        rejection = { code: 'not-host', message: 'Only the host can change the settings' };
+        return false;
+      }
+      if (gameState.phase !== 'waiting') {
+        rejection = { code: 'already-started', message: 'Settings are locked once the round starts' };
+        return false;
+      }
+
+      const next: GameSettings = {
+        mode: settings.mode ?? gameState.mode,
+        timeLimit: settings.timeLimit ?? gameState.timeLimit,
+        minPlayers: settings.minPlayers ?? gameState.minPlayers,
+        maxPlayers: settings.maxPlayers ?? gameState.maxPlayers,
+        difficultyMix: settings.difficultyMix ?? gameState.difficultyMix,
+        missPenalty: settings.missPenalty ?? gameState.missPenalty,
+      };
+
+      if (next.mode === 'coop' && gameState.teams) {
+        rejection = { code: 'teams-in-coop', message: 'Co-op already plays as one team; remove the teams first' };
+        return false;
+      }
+
+      const playerCount = Object.keys(gameState.players).length;
+      if (next.maxPlayers < playerCount) {
+        rejection = { code: 'invalid-settings', message: `${playerCount} players have already joined` };
+        return false;
+      }
+      if (next.minPlayers > next.maxPlayers) {
+        rejection = { code: 'invalid-settings', message: 'Minimum players cannot be above the player cap' };
+        return false;
+      }
+
+      const mixChanged = DIFFICULTIES.some(
+        (difficulty) => next.difficultyMix[difficulty] !== gameState.difficultyMix[difficulty]
+      );
+      if (mixChanged) {
+        gameState.impostors = generateLevel({ seed: gameState.seed, mix: next.difficultyMix });
+        next.difficultyMix = getLevelMix(gameState.impostors);
+      }
+
+      if (next.mode === 'coop') {
+        gameState.teamScore = gameState.teamScore ?? 0;
+      } else {
+        delete gameState.teamScore;
+      }
+
+      Object.assign(gameState, next);
+      emit({ type: 'settings-changed', settings: next, sprites: getSprites(gameState) });
+
+      // A raised cap makes room for whoever is queued
+      seatQueuedSpectators(gameState, emit);
+    },
+  });
+
+  if (rejection) return { gameState, rejection };
+  return { gameState };
+};
+
+/**
+ * Splits the lobby into named teams (or back into individuals when `names` is empty) and deals
+ * everyone out evenly. Players can switch teams afterwards with `chooseTeam`.
+ */
+export const setTeams = async ({
+  redis,
+  realtime,
+  postId,
+  playerId,
+  names,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  playerId: string;
+  names: string[];
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  let rejection: GameRejection | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = getTeamsRejection(gameState, playerId);
+      if (rejection) return false;
+      if (names.length > 0 && gameState.mode === 'coop') {
+        rejection = { code: 'teams-in-coop', message: 'Co-op already plays as one team' };
+        return false;
+      }
+
+      if (names.length === 0) {
+        delete gameState.teams;
+        Object.values(gameState.players).forEach((player) => delete player.teamId);
+        emit({ type: 'teams-changed', teams: [], assignments: {} });
+        return;
+      }
+
+      gameState.teams = names.map((name, i) => ({ id: `team_${i}`, name, color: TEAM_COLORS[i % TEAM_COLORS.length]! }));
+      assignTeams(gameState, balanceTeams(gameState.teams, Object.keys(gameState.players)), emit);
+    },
+  });
+
+  if (rejection) return { gameState, rejection };
+  return { gameState };
+};
+
+/** Re-deals every player evenly across the existing teams, in join order. */
+export const autoBalanceTeams = async ({
+  redis,
+  realtime,
+  postId,
+  playerId,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  playerId: string;
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  let rejection: GameRejection | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = getTeamsRejection(gameState, playerId);
+      if (!rejection && !gameState.teams) rejection = { code: 'no-teams', message: 'There are no teams to balance' };
+      if (rejection || !gameState.teams) return false;
+
+      assignTeams(gameState, balanceTeams(gameState.teams, Object.keys(gameState.players)), emit);
+    },
+  });
+
+  if (rejection) return { gameState, rejection };
+  return { gameState };
+};
+
+export const chooseTeam = async ({
+  redis,
+  realtime,
+  postId,
+  playerId,
+  teamId,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  playerId: string;
+  teamId: string;
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  let rejection: GameRejection | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = undefined;
+
+      const player = gameState.players[playerId];
+      if (!player) {
+        rejection = { code: 'not-in-game', message: 'Join the game first' };
+        return false;
+      }
+      if (gameState.phase !== 'waiting') {
+        rejection = { code: 'already-started', message: 'Teams are locked once the round starts' };
+        return false;
+      }
+      if (!gameState.teams?.some((team) => team.id === teamId)) {
+        rejection = { code: 'no-such-team', message: 'No such team' };
+        return false;
+      }
+      if (player.teamId === teamId) return false;
+
+      assignTeams(gameState, { [playerId]: teamId }, emit);
+    },
+  });
+
+  if (rejection) return { gameState, rejection };
+  return { gameState };
 };
 
+function getTeamsRejection(gameState: GameState, playerId: string): GameRejection | undefined {
+  if (gameState.host !== playerId) return { code: 'not-host', message: 'Only the host can set up teams' };
+  if (gameState.phase !== 'waiting') return { code: 'already-started', message: 'Teams are locked once the round starts' };
+  return undefined;
+}
+
+function assignTeams(gameState: GameState, assignments: Record<string, string>, emit: EmitGameEvent): void {
+  Object.entries(assignments).forEach(([playerId, teamId]) => {
+    const player = gameState.players[playerId];
+    if (player) player.teamId = teamId;
+  });
+
+  // Always broadcast the full picture so clients never have to merge partial assignments
+  emit({
+    type: 'teams-changed',
+    teams: gameState.teams ?? [],
+    assignments: Object.fromEntries(
+      Object.values(gameState.players).flatMap((player) => (player.teamId ? [[player.id, player.teamId]] : []))
+    ),
+  });
+}
+
 export const findImpostor = async ({
   redis,
+  realtime,
   postId,
   playerId,
   x,
   y,
+  aspect = DEFAULT_ASPECT,
 }: {
-  redis: Context['redis'] | RedisClient | any;
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
   postId: string;
   playerId: string;
   x: number;
   y: number;
-}): Promise<{ gameState: GameState | null; found: boolean; impostor?: Impostor; score: number }> => {
-  const gameState = await getGame({ redis, postId });
-  if (!gameState) return { gameState: null, found: false, score: 0 };
+  aspect?: number; // Scene width / height in pixels when the player clicked
+}): Promise<{
+  gameState: GameState | null;
+  found: boolean;
+  impostor?: Impostor;
+  score: number;
+  penalty: number;
+  retryAfter?: number; // Set when the click was throttled, in milliseconds
+  rejection?: GameRejection;
+}> => {
+  let rejection: GameRejection | undefined;
+  let foundImpostor: Impostor | undefined;
+  let score = 0;
+  let penalty = 0;
+  let retryAfter: number | undefined;
+  let judgedAt: number | undefined;
 
-  const player = gameState.players[playerId];
-  if (!player || gameState.phase !== 'playing') {
-    return { gameState, found: false, score: player?.score || 0 };
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = undefined;
+      foundImpostor = undefined;
+      penalty = 0;
+      retryAfter = undefined;
+      judgedAt = undefined;
+
+      const player = gameState.players[playerId];
+      score = player?.score || 0;
+      if (!player) {
+        rejection = { code: 'spectating', message: 'Spectators can watch but not play' };
+        return false;
+      }
+      if (gameState.phase !== 'playing') {
+        rejection = { code: 'round-not-running', message: 'The round is not running' };
+        return false;
+      }
+
+      const clickedAt = Date.now();
+      if (player.cooldownUntil && clickedAt < player.cooldownUntil) {
+        retryAfter = player.cooldownUntil - clickedAt;
+        return false;
+      }
+
+      // Spamming clicks across the board earns a cooldown instead of a chance at a hit
+      player.recentClicks = [
+        ...(player.recentClicks ?? []).filter(at => clickedAt - at < CLICK_BURST_WINDOW_MS),
+        clickedAt,
+      ];
+      if (player.recentClicks.length > CLICK_BURST_LIMIT) {
+        player.cooldownUntil = clickedAt + CLICK_COOLDOWN_MS;
+        player.recentClicks = [];
+        retryAfter = CLICK_COOLDOWN_MS;
+        return;
+      }
+      judgedAt = clickedAt;
+
+      // Check if click is within any impostor's hit shape, which the magnifier makes bigger
+      const scale = player.magnifierUntil && clickedAt < player.magnifierUntil ? MAGNIFIER_SCALE : 1;
+      const hits = gameState.impostors.filter(impostor => hitsImpostor(impostor, { x, y }, aspect, scale));
+      foundImpostor = hits.find(impostor => !isFoundFor(gameState, impostor, player));
+
+      if (!foundImpostor) {
+        // Clicking an impostor someone already caught is not the player's mistake
+        if (hits.length > 0) return;
+
+        player.misses += 1;
+        penalty = -recordScore(gameState, player, { kind: 'miss', at: clickedAt });
+        score = player.score;
+
+        emit({
+          type: 'impostor-missed',
+          playerId,
+          at: clickedAt,
+          score: player.score,
+          misses: player.misses,
+          ...(gameState.teamScore !== undefined && { teamScore: gameState.teamScore }),
+        });
+        return;
+      }
+
+      const foundAt = clickedAt;
+      // On independent boards everyone can find every impostor, so beating the others pays extra
+      const impostorId = foundImpostor.id;
+      const firstFinder =
+        gameState.mode === 'independent' &&
+        !Object.values(gameState.players).some((other) => other.foundImpostors.includes(impostorId));
+
+      // Shared modes claim the impostor for everyone; independent boards only track it per player
+      if (gameState.mode !== 'independent') {
+        foundImpostor.found = true;
+        foundImpostor.foundBy = playerId;
+        foundImpostor.foundAt = foundAt;
+      }
+
+      // Add to player's found list
+      player.foundImpostors.push(foundImpostor.id);
+      if (player.foundImpostors.length % FINDS_PER_CHARGE === 0) {
+        player.charges += 1;
+      }
+
+      recordScore(gameState, player, {
+        kind: 'find',
+        at: foundAt,
+        difficulty: foundImpostor.difficulty,
+        firstFinder,
+      });
+      score = player.score;
+
+      if (player.foundImpostors.length === gameState.impostors.length) {
+        player.timeCompleted = foundAt;
+      }
+
+      emit({
+        type: 'impostor-found',
+        playerId,
+        impostorId: foundImpostor.id,
+        ...(gameState.mode !== 'independent' && { impostor: { ...foundImpostor } }),
+        at: foundAt,
+        score: player.score,
+        foundCount: player.foundImpostors.length,
+        ...(gameState.teamScore !== undefined && { teamScore: gameState.teamScore }),
+        ...(player.timeCompleted && { timeCompleted: player.timeCompleted }),
+      });
+
+      if (isGameOver(gameState)) {
+        endGame(gameState, emit);
+      }
+    },
+  });
+
+  if (!gameState) return { gameState: null, found: false, score: 0, penalty: 0 };
+
+  if (judgedAt !== undefined) {
+    const click: ReplayClick = {
+      playerId,
+      x,
+      y,
+      aspect,
+      at: judgedAt,
+      found: !!foundImpostor,
+      ...(foundImpostor && { impostorId: foundImpostor.id }),
+    };
+    // A missing replay entry must never cost the player their find
+    await recordReplayClick({ redis, gameId: postId, round: gameState.round, click }).catch((error: unknown) =>
+      console.error('Error recording replay click:', error)
+    );
   }
 
-  // Check if click is within any impostor's bounds
-  const foundImpostor = gameState.impostors.find(impostor => {
-    if (impostor.found) return false;
-    
-    const withinX = x >= impostor.x && x <= impostor.x + impostor.width;
-    const withinY = y >= impostor.y && y <= impostor.y + impostor.height;
-    
-    return withinX && withinY;
+  if (rejection) return { gameState, found: false, score, penalty: 0, rejection };
+  if (retryAfter !== undefined) return { gameState, found: false, score, penalty: 0, retryAfter };
+  return foundImpostor
+    ? { gameState, found: true, impostor: foundImpostor, score, penalty: 0 }
+    : { gameState, found: false, score, penalty };
+};
+
+/**
+ * Spends a charge, or score when the player has none, on a power-up. Everything it reveals is
+ * worked out here so the client only learns what the power-up is meant to tell it.
+ */
+export const activatePowerUp = async ({
+  redis,
+  realtime,
+  scheduler,
+  postId,
+  playerId,
+  powerUp,
+  x,
+  y,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  scheduler: Pick<Context['scheduler'], 'runJob'>;
+  postId: string;
+  playerId: string;
+  powerUp: PowerUp;
+  x?: number | undefined; // Where the radar pings
+  y?: number | undefined;
+}): Promise<{ gameState: GameState | null; effect?: PowerUpEffect; rejection?: GameRejection }> => {
+  let effect: PowerUpEffect | undefined;
+  let rejection: GameRejection | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      effect = undefined;
+      rejection = undefined;
+
+      const player = gameState.players[playerId];
+      if (!player || gameState.phase !== 'playing') {
+        rejection = { code: 'round-not-running', message: 'Power-ups can only be used during a round' };
+        return false;
+      }
+
+      const remaining = gameState.impostors.filter(impostor => !isFoundFor(gameState, impostor, player));
+      const usedAt = Date.now();
+
+      switch (powerUp) {
+        case 'hint': {
+          // Point at the hardest impostor left, the one a hint helps with most
+          const target = [...remaining].sort((a, b) => a.width * a.height - b.width * b.height)[0];
+          if (!target) {
+            rejection = { code: 'nothing-left', message: 'Nothing left to hint at' };
+            return false;
+          }
+          const center = getImpostorCenter(target);
+          effect = {
+            powerUp,
+            area: { x: center.x < 50 ? 0 : 50, y: center.y < 50 ? 0 : 50, width: 50, height: 50 },
+          };
+          break;
+        }
+
+        case 'magnifier':
+          player.magnifierUntil = Math.max(player.magnifierUntil ?? 0, usedAt) + MAGNIFIER_DURATION_MS;
+          effect = { powerUp, until: player.magnifierUntil };
+          break;
+
+        case 'radar': {
+          if (x === undefined || y === undefined) {
+            rejection = { code: 'needs-target', message: 'Radar needs a point to ping' };
+            return false;
+          }
+          const distances = remaining.map(impostor => {
+            const center = getImpostorCenter(impostor);
+            return Math.hypot(center.x - x, center.y - y);
+          });
+          if (distances.length === 0) {
+            rejection = { code: 'nothing-left', message: 'Nothing left to find' };
+            return false;
+          }
+          effect = { powerUp, at: { x, y }, proximity: getProximity(Math.min(...distances)) };
+          break;
+        }
+
+        case 'freeze': {
+          const freezes = player.powerUps.filter(use => use.powerUp === 'freeze').length;
+          if (freezes >= MAX_FREEZES_PER_PLAYER) {
+            rejection = { code: 'freeze-used', message: 'You have already frozen the clock this round' };
+            return false;
+          }
+          gameState.frozenUntil = Math.max(gameState.frozenUntil ?? 0, usedAt) + FREEZE_DURATION_MS;
+          gameState.frozenMs = (gameState.frozenMs ?? 0) + FREEZE_DURATION_MS;
+          refreshTimeLeft(gameState);
+          effect = { powerUp, until: gameState.frozenUntil };
+          break;
+        }
+      }
+
+      // Charges first, then score
+      let cost = 0;
+      if (player.charges > 0) {
+        player.charges -= 1;
+      } else if (player.score >= POWER_UP_COSTS[powerUp]) {
+        cost = POWER_UP_COSTS[powerUp];
+        player.score -= cost;
+        player.ledger.push({ reason: 'power-up', points: -cost, at: usedAt });
+        if (gameState.teamScore !== undefined) {
+          gameState.teamScore = Math.max(0, gameState.teamScore - cost);
+        }
+      } else {
+        effect = undefined;
+        rejection = { code: 'not-enough-points', message: `Not enough points (${POWER_UP_COSTS[powerUp]} needed)` };
+        return false;
+      }
+
+      player.powerUps.push({ powerUp, at: usedAt, cost });
+      emit({
+        type: 'power-up-used',
+        playerId,
+        powerUp,
+        at: usedAt,
+        cost,
+        score: player.score,
+        charges: player.charges,
+        ...(gameState.teamScore !== undefined && { teamScore: gameState.teamScore }),
+        ...(powerUp === 'freeze' && gameState.frozenUntil && { frozenUntil: gameState.frozenUntil }),
+      });
+    },
+  });
+
+  if (!gameState) return { gameState: null };
+  if (rejection || !effect) return { gameState, rejection: rejection ?? { code: 'server-error', message: 'Power-up failed' } };
+
+  // The original end-of-round job will now find time left and skip, so queue one for the new end
+  if (effect.powerUp === 'freeze') {
+    await scheduleRoundEnd(scheduler, postId, gameState);
+  }
+
+  return { gameState, effect };
+};
+
+/**
+ * Closes a running round, picking the winner and building the leaderboard. Called by the
+ * end-of-round job; `roundStartedAt` lets a late job ignore a round that has since been replaced.
+ */
+export const finishRound = async ({
+  redis,
+  realtime,
+  postId,
+  roundStartedAt,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  roundStartedAt?: number | undefined;
+}): Promise<GameState | null> => {
+  return mutateGame({
+    redis,
+    realtime,
+    postId,
+    mutate: (gameState, emit) => {
+      if (gameState.phase !== 'playing') return false;
+      if (roundStartedAt !== undefined && gameState.gameStartTime !== roundStartedAt) return false;
+      // A freeze pushed the end back and scheduled its own job, which may fire a little early
+      if (gameState.frozenMs && Date.now() < getRoundEndsAt(gameState) - ROUND_END_TOLERANCE_MS) return false;
+
+      gameState.timeLeft = 0;
+      endGame(gameState, emit);
+    },
   });
+};
 
-  if (foundImpostor) {
-    // Mark impostor as found
-    foundImpostor.found = true;
-    foundImpostor.foundBy = playerId;
-    foundImpostor.foundAt = Date.now();
-
-    // Add to player's found list
-    player.foundImpostors.push(foundImpostor.id);
-
-    // Calculate score based on difficulty and time
-    let points = 0;
-    switch (foundImpostor.difficulty) {
-      case 'easy': points = 10; break;
-      case 'medium': points = 25; break;
-      case 'hard': points = 50; break;
+/**
+ * Replaces a finished round with a fresh lobby on the same post: a new level from a new seed, the
+ * same host, settings and teams, and every player carried over with a clean score. Queued
+ * spectators take any seats left. The finished round is archived so its results stay reachable.
+ */
+export const startRematch = async ({
+  redis,
+  realtime,
+  postId,
+  playerId,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  playerId: string;
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  const seed = generateSeed();
+  let rejection: GameRejection | undefined;
+  let finished: GameState | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = undefined;
+      finished = undefined;
+
+      if (gameState.host !== playerId) {
+        rejection = { code: 'not-host', message: 'Only the host can start a rematch' };
+        return false;
+      }
+      if (gameState.phase !== 'ended') {
+        rejection = { code: 'round-not-over', message: 'A rematch can only start once the round is over' };
+        return false;
+      }
+
+      finished = structuredClone(gameState);
+      resetRound(gameState, seed);
+      emit({ type: 'round-started', round: gameState.round });
+      seatQueuedSpectators(gameState, emit);
+    },
+  });
+
+  // The new round is already live, so a failed archive only costs the old results
+  if (finished) {
+    try {
+      await redis.set(getRoundArchiveKey(postId, finished.round), JSON.stringify(finished), {
+        expiration: new Date(Date.now() + ROUND_ARCHIVE_EXPIRY * 1000),
+      });
+    } catch (error) {
+      console.error(`Error archiving round ${finished.round} of game ${postId}:`, error);
     }
+  }
 
-    // Time bonus (faster = more points)
-    const timeElapsed = (Date.now() - (player.timeStarted || Date.now())) / 1000;
-    const timeBonus = Math.max(0, Math.floor((TIME_LIMIT - timeElapsed) / 10));
-    
-    player.score += points + timeBonus;
+  if (rejection) return { gameState, rejection };
+  return { gameState };
+};
 
-    // Check if all impostors found or if this player found them all
-    const allFound = gameState.impostors.every(imp => imp.found);
-    const playerFoundAll = player.foundImpostors.length === gameState.impostors.length;
+function resetRound(gameState: GameState, seed: string): void {
+  gameState.round += 1;
+  gameState.seed = seed;
+  gameState.impostors = generateLevel({ seed, mix: gameState.difficultyMix });
+  gameState.difficultyMix = getLevelMix(gameState.impostors);
+  gameState.phase = 'waiting';
+  gameState.leaderboard = [];
+  if (gameState.mode === 'coop') gameState.teamScore = 0;
 
-    if (allFound || playerFoundAll) {
-      gameState.phase = 'ended';
-      gameState.gameEndTime = Date.now();
-      gameState.winner = playerId;
-      player.timeCompleted = Date.now();
+  delete gameState.timeLeft;
+  delete gameState.frozenUntil;
+  delete gameState.frozenMs;
+  delete gameState.gameStartTime;
+  delete gameState.gameEndTime;
+  delete gameState.winner;
+  delete gameState.winningTeam;
+  delete gameState.teamLeaderboard;
 
-      // Update leaderboard
-      updateLeaderboard(gameState);
+  // Everyone who stayed keeps their seat and team, but starts from scratch
+  Object.values(gameState.players).forEach((player) => {
+    if (player.leftAt) {
+      delete gameState.players[player.id];
+      return;
     }
 
-    await updateGame({ redis, gameState });
-    return { gameState, found: true, impostor: foundImpostor, score: player.score };
-  }
+    const fresh = createPlayer(player.id, player.username);
+    fresh.joinedAt = player.joinedAt;
+    if (player.lastSeenAt) fresh.lastSeenAt = player.lastSeenAt;
+    if (player.teamId) fresh.teamId = player.teamId;
+    gameState.players[player.id] = fresh;
+  });
+}
+
+/**
+ * Takes the player out of the game, or off the watch list. Mid-round their points go with them;
+ * once the round is over they stay in the results and are dropped at the rematch.
+ */
+export const leaveGame = async ({
+  redis,
+  realtime,
+  postId,
+  playerId,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  playerId: string;
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  let rejection: GameRejection | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    mutate: (gameState, emit) => {
+      rejection = undefined;
+
+      const player = gameState.players[playerId];
+      if (player?.leftAt) return false; // Already gone
+      if (!player && !gameState.spectators?.[playerId]) {
+        rejection = { code: 'not-in-game', message: 'You are not in this game' };
+        return false;
+      }
+
+      removeFromGame(gameState, playerId, emit);
+    },
+  });
+
+  if (rejection) return { gameState, rejection };
+  return { gameState };
+};
+
+/** The host removes a player or spectator, who is then kept out of the post's game for good. */
+export const kickPlayer = async ({
+  redis,
+  realtime,
+  postId,
+  playerId,
+  targetId,
+}: {
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  playerId: string;
+  targetId: string;
+}): Promise<{ gameState: GameState | null; rejection?: GameRejection }> => {
+  let rejection: GameRejection | undefined;
+
+  const gameState = await mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState, emit) => {
+      rejection = undefined;
+
+      if (gameState.host !== playerId) {
+        rejection = { code: 'not-host', message: 'Only the host can remove players' };
+        return false;
+      }
+      if (targetId === playerId) {
+        rejection = { code: 'cannot-kick-self', message: 'Use leave to remove yourself' };
+        return false;
+      }
+      if (!gameState.players[targetId] && !gameState.spectators?.[targetId]) {
+        rejection = { code: 'player-not-found', message: 'That player is not in this game' };
+        return false;
+      }
+
+      gameState.kicked = [...(gameState.kicked ?? []), targetId];
+      removeFromGame(gameState, targetId, emit, true);
+    },
+  });
 
-  return { gameState, found: false, score: player.score };
+  if (rejection) return { gameState, rejection };
+  return { gameState };
 };
 
-export const updateGameTimer = async ({
+/**
+ * An open post checking in. Writes are skipped while the player was seen recently, so heartbeats
+ * only touch the game when their presence or the lobby would actually change.
+ */
+export const sendHeartbeat = async ({
   redis,
+  realtime,
   postId,
+  playerId,
 }: {
-  redis: Context['redis'] | RedisClient | any;
+  redis: GameRedis;
+  realtime: Pick<Context['realtime'], 'send'>;
   postId: string;
+  playerId: string;
 }): Promise<GameState | null> => {
-  const gameState = await getGame({ redis, postId });
-  if (!gameState || gameState.phase !== 'playing') return gameState;
-
-  const elapsed = Math.floor((Date.now() - (gameState.gameStartTime || Date.now())) / 1000);
-  gameState.timeLeft = Math.max(0, TIME_LIMIT - elapsed);
-
-  if (gameState.timeLeft === 0) {
-    gameState.phase = 'ended';
-    gameState.gameEndTime = Date.now();
-    
-    // Find winner (highest score)
-    const players = Object.values(gameState.players);
-    const winner = players.reduce((best, current) => 
-      current.score > best.score ? current : best
+  return mutateGame({
+    redis,
+    realtime,
+    postId,
+    actorId: playerId,
+    mutate: (gameState) => {
+      const player = gameState.players[playerId];
+      if (!player || player.leftAt) return false; // Spectators have no seat to keep
+
+      if (getIdleTime(player, Date.now()) < HEARTBEAT_INTERVAL_MS / 2) return false;
+    },
+  });
+};
+
+function getKickedRejection(gameState: GameState, playerId: string): GameRejection | undefined {
+  return gameState.kicked?.includes(playerId)
+    ? { code: 'kicked', message: 'The host removed you from this game' }
+    : undefined;
+}
+
+function removeFromGame(gameState: GameState, playerId: string, emit: EmitGameEvent, kicked = false): void {
+  const player = gameState.players[playerId];
+  const at = Date.now();
+
+  if (!player) {
+    delete gameState.spectators?.[playerId];
+  } else if (gameState.phase === 'ended') {
+    player.leftAt = at;
+  } else {
+    delete gameState.players[playerId];
+  }
+  emit({ type: 'player-left', playerId, at, ...(kicked && { kicked }) });
+
+  // The freed seat goes to whoever is next in line while the lobby is still open
+  if (player && gameState.phase === 'waiting') seatQueuedSpectators(gameState, emit);
+
+  if (gameState.host === playerId) transferHost(gameState, emit);
+
+  // On independent boards the round may have been waiting on nobody but them
+  if (player && gameState.phase === 'playing' && isGameOver(gameState)) {
+    endGame(gameState, emit);
+  }
+}
+
+/**
+ * Records that a user is around. While someone is, the lobby sheds players who have long since
+ * closed the post, and the host role moves on if the host has gone quiet.
+ */
+function markActive(gameState: GameState, userId: string, emit: EmitGameEvent): void {
+  const now = Date.now();
+  const player = gameState.players[userId];
+  if (player) player.lastSeenAt = now;
+
+  // Mid-round and in the results idle players keep their place, since their score still counts
+  if (gameState.phase === 'waiting') {
+    Object.values(gameState.players)
+      .filter((other) => getIdleTime(other, now) > DROP_AFTER_MS)
+      .forEach((other) => removeFromGame(gameState, other.id, emit));
+  }
+
+  const host = gameState.players[gameState.host];
+  // Also covers a game abandoned by everyone, which goes to whoever turns up next
+  if (!host || host.leftAt || getIdleTime(host, now) > HOST_IDLE_MS) {
+    transferHost(gameState, emit);
+  }
+}
+
+/** Passes the host role to the longest-present player, preferring anyone who is still active. */
+function transferHost(gameState: GameState, emit: EmitGameEvent): void {
+  const now = Date.now();
+  const candidates = Object.values(gameState.players)
+    .filter((player) => player.id !== gameState.host && !player.leftAt)
+    .sort((a, b) => a.joinedAt - b.joinedAt);
+  const next =
+    candidates.find((player) => getIdleTime(player, now) <= HOST_IDLE_MS) ?? candidates[0];
+
+  // Keep a departed host on record until someone arrives, so the game still has an owner
+  if (!next) return;
+
+  gameState.host = next.id;
+  emit({ type: 'host-changed', host: next.id });
+}
+
+/** Derives the remaining time from the start time so stored games never report a stale clock. */
+function refreshTimeLeft(gameState: GameState): void {
+  if (gameState.phase !== 'playing') return;
+
+  // Time spent frozen doesn't count, including the part of a freeze that is still running
+  const now = Date.now();
+  const frozenMs = (gameState.frozenMs ?? 0) - Math.max(0, (gameState.frozenUntil ?? 0) - now);
+  const elapsed = Math.floor((now - (gameState.gameStartTime || now) - frozenMs) / 1000);
+  gameState.timeLeft = Math.max(0, gameState.timeLimit - elapsed);
+}
+
+/** Scores the event with the shared rules and books it on the player and any co-op team score. */
+function recordScore(gameState: GameState, player: Player, event: ScoreEvent): number {
+  const entries = scoreEvent(event, {
+    startedAt: player.timeStarted ?? gameState.gameStartTime ?? event.at,
+    timeLimit: gameState.timeLimit,
+    missPenalty: gameState.missPenalty,
+    score: player.score,
+    streak: player.streak,
+  });
+  const points = getLedgerTotal(entries);
+
+  player.ledger.push(...entries);
+  player.score += points;
+  player.streak = getStreakAfter(event, player.streak);
+  if (gameState.teamScore !== undefined) {
+    gameState.teamScore = Math.max(0, gameState.teamScore + points);
+  }
+  return points;
+}
+
+/** Whether the impostor counts as found from this player's point of view. */
+function isFoundFor(gameState: GameState, impostor: Impostor, player: Player): boolean {
+  return gameState.mode === 'independent'
+    ? player.foundImpostors.includes(impostor.id)
+    : impostor.found;
+}
+
+function isGameOver(gameState: GameState): boolean {
+  if (gameState.mode === 'independent') {
+    // Everyone has their own board, so wait until every player has cleared it
+    return Object.values(gameState.players).every(
+      player => player.foundImpostors.length === gameState.impostors.length
     );
-    
-    if (winner.score > 0) {
-      gameState.winner = winner.id;
-    }
+  }
+  return gameState.impostors.every(imp => imp.found);
+}
+
+function endGame(gameState: GameState, emit: EmitGameEvent): void {
+  gameState.phase = 'ended';
+  gameState.gameEndTime = Date.now();
 
-    updateLeaderboard(gameState);
+  updateLeaderboard(gameState);
+
+  // Co-op is won or lost as a team, so there is no individual winner
+  const best = gameState.leaderboard[0];
+  if (gameState.mode !== 'coop' && best && best.score > 0) {
+    gameState.winner = best.playerId;
   }
 
-  await updateGame({ redis, gameState });
-  return gameState;
-};
+  // With teams the round goes to the highest total; a tie at the top has no winning team
+  if (gameState.teams) {
+    gameState.teamLeaderboard = getTeamStandings(gameState.teams, Object.values(gameState.players));
+    const [first, second] = gameState.teamLeaderboard;
+    if (first && first.score > 0 && (!second || first.score > second.score)) {
+      gameState.winningTeam = first.teamId;
+    }
+  }
+
+  emit({ type: 'phase-changed', phase: 'ended', at: gameState.gameEndTime });
+  emit({
+    type: 'leaderboard-updated',
+    leaderboard: gameState.leaderboard,
+    ...(gameState.winner && { winner: gameState.winner }),
+    ...(gameState.teamLeaderboard && { teamLeaderboard: gameState.teamLeaderboard }),
+    ...(gameState.winningTeam && { winningTeam: gameState.winningTeam }),
+  });
+}
 
 function updateLeaderboard(gameState: GameState): void {
   gameState.leaderboard = Object.values(gameState.players)
@@ -286,6 +1454,9 @@ function updateLeaderboard(gameState: GameState): void {
       if (a.timeCompleted && b.timeCompleted) {
         return a.timeCompleted - b.timeCompleted;
       }
+      // A full clear beats an unfinished board on equal score
+      if (a.timeCompleted) return -1;
+      if (b.timeCompleted) return 1;
       return 0;
     });
 }
\ No newline at end of file
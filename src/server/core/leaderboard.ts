@@ -0,0 +1,105 @@
+import { Context } from '@devvit/public-api';
+import { GameState } from '../../shared/types/game';
+import { LeaderboardPeriod, RankedPlayer, SubredditLeaderboard } from '../../shared/types/leaderboard';
+
+const WEEKLY_EXPIRY = 5 * 7 * 24 * 60 * 60; // Keep a few past weeks around, in seconds
+
+/** Monday 00:00 UTC of the week containing `at`, as YYYY-MM-DD. */
+export const getWeekStart = (at: number) => {
+  const date = new Date(at);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  const monday = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday);
+  return new Date(monday).toISOString().slice(0, 10);
+};
+
+const getLeaderboardKey = (subredditId: string, period: LeaderboardPeriod, at: number) =>
+  period === 'weekly'
+    ? (`leaderboard:${subredditId}:weekly:${getWeekStart(at)}` as const)
+    : (`leaderboard:${subredditId}:all-time` as const);
+
+/** The Redis calls the leaderboards make; Devvit's client and `MockRedis` both provide them. */
+export type LeaderboardRedis = Pick<
+  Context['redis'],
+  'zIncrBy' | 'expire' | 'hSet' | 'hMGet' | 'zCard' | 'zRange' | 'zRank' | 'zScore'
+>;
+
+// Sorted sets only hold user ids, so the latest display name is kept alongside them
+const getNamesKey = (subredditId: string) => `leaderboard:${subredditId}:names` as const;
+
+/** Adds every player's points from a finished round to the subreddit's leaderboards. */
+export const recordRoundScores = async ({
+  redis,
+  gameState,
+}: {
+  redis: LeaderboardRedis;
+  gameState: GameState;
+}): Promise<void> => {
+  const endedAt = gameState.gameEndTime ?? Date.now();
+  const scorers = Object.values(gameState.players).filter((player) => player.score > 0);
+  if (scorers.length === 0) return;
+
+  const weeklyKey = getLeaderboardKey(gameState.subredditId, 'weekly', endedAt);
+  for (const player of scorers) {
+    await redis.zIncrBy(getLeaderboardKey(gameState.subredditId, 'all-time', endedAt), player.id, player.score);
+    await redis.zIncrBy(weeklyKey, player.id, player.score);
+  }
+  await redis.expire(weeklyKey, WEEKLY_EXPIRY);
+  await redis.hSet(
+    getNamesKey(gameState.subredditId),
+    Object.fromEntries(scorers.map((player) => [player.id, player.username]))
+  );
+};
+
+export const getLeaderboard = async ({
+  redis,
+  subredditId,
+  period,
+  offset = 0,
+  limit = 10,
+  viewerId,
+  now = Date.now(),
+}: {
+  redis: LeaderboardRedis;
+  subredditId: string;
+  period: LeaderboardPeriod;
+  offset?: number;
+  limit?: number;
+  viewerId?: string | undefined;
+  now?: number;
+}): Promise<SubredditLeaderboard> => {
+  const key = getLeaderboardKey(subredditId, period, now);
+  const total: number = await redis.zCard(key);
+
+  const members: { member: string; score: number }[] =
+    limit > 0 && offset < total
+      ? await redis.zRange(key, offset, offset + limit - 1, { by: 'rank', reverse: true })
+      : [];
+
+  // zRank counts from the lowest score, so flip it to get a 1-based position from the top
+  let viewer: { member: string; score: number; rank: number } | undefined;
+  if (viewerId) {
+    const ascendingRank: number | undefined = await redis.zRank(key, viewerId);
+    const score: number | undefined = await redis.zScore(key, viewerId);
+    if (ascendingRank !== undefined && ascendingRank !== null && score !== undefined && score !== null) {
+      viewer = { member: viewerId, score, rank: total - ascendingRank };
+    }
+  }
+
+  const ids = [...members.map(({ member }) => member), ...(viewer ? [viewer.member] : [])];
+  const names: (string | null)[] = ids.length > 0 ? await redis.hMGet(getNamesKey(subredditId), ids) : [];
+  const toRanked = (member: string, score: number, rank: number, index: number): RankedPlayer => ({
+    rank,
+    userId: member,
+    username: names[index] ?? member,
+    score,
+  });
+
+  return {
+    period,
+    ...(period === 'weekly' && { weekStart: getWeekStart(now) }),
+    entries: members.map(({ member, score }, i) => toRanked(member, score, offset + i + 1, i)),
+    offset,
+    total,
+    ...(viewer && { viewer: toRanked(viewer.member, viewer.score, viewer.rank, members.length) }),
+  };
+};
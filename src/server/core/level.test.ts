@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getImpostorCount } from '../../shared/settings';
+import { MockRedis } from '../dev';
+import { createGame } from './game';
+import { generateLevel, getLevelMix } from './level';
+
+// Far more impostors than the crowd has room for
+const crowdedMix = { easy: 60, medium: 60, hard: 60 };
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('generateLevel', () => {
+  it('places every impostor of a mix that fits', () => {
+    const impostors = generateLevel({ seed: 'roomy', mix: { easy: 3, medium: 4, hard: 5 } });
+    expect(getLevelMix(impostors)).toEqual({ easy: 3, medium: 4, hard: 5 });
+  });
+
+  it('reports the impostors it placed when a mix is too large', () => {
+    const impostors = generateLevel({ seed: 'crowded', mix: crowdedMix });
+
+    const mix = getLevelMix(impostors);
+    expect(impostors.length).toBeLessThan(getImpostorCount(crowdedMix));
+    expect(getImpostorCount(mix)).toBe(impostors.length);
+  });
+});
+
+describe('createGame', () => {
+  it('keeps the mix the level actually holds', async () => {
+    const gameState = await createGame({
+      redis: new MockRedis(),
+      postId: 'post_1',
+      subredditId: 'sub_1',
+      hostId: 'host',
+      hostUsername: 'host',
+      seed: 'crowded',
+      difficultyMix: crowdedMix,
+    });
+
+    expect(getImpostorCount(gameState!.difficultyMix)).toBe(gameState!.impostors.length);
+  });
+});
@@ -0,0 +1,86 @@
+import { Difficulty, DifficultyMix, Impostor } from '../../shared/types/game';
+import { createRandom, randomBetween } from '../../shared/random';
+import { getImpostorCenter } from '../../shared/geometry';
+import { DEFAULT_DIFFICULTY_MIX } from '../../shared/settings';
+
+// Hitbox size ranges in percent of the scene; harder impostors are smaller
+const SIZES: Record<Difficulty, { width: [number, number]; height: [number, number] }> = {
+  easy: { width: [7, 8], height: [11, 13] },
+  medium: { width: [5, 6], height: [7, 9] },
+  hard: { width: [3, 4], height: [4, 6] },
+};
+
+const EDGE_MARGIN = 3; // Keep impostors off the very edge of the scene
+const SPACING = 2; // Minimum gap between two impostors
+const MAX_PLACEMENT_ATTEMPTS = 200;
+
+type Placement = Pick<Impostor, 'x' | 'y' | 'width' | 'height'>;
+
+const overlaps = (a: Placement, b: Placement) =>
+  a.x < b.x + b.width + SPACING &&
+  b.x < a.x + a.width + SPACING &&
+  a.y < b.y + b.height + SPACING &&
+  b.y < a.y + a.height + SPACING;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Places impostors for a level. The same seed and mix always produce the same level, so a puzzle
+ * can be replayed or shared by its seed. Harder impostors are placed first while space is free.
+ */
+export const generateLevel = ({
+  seed,
+  mix = DEFAULT_DIFFICULTY_MIX,
+}: {
+  seed: string;
+  mix?: DifficultyMix;
+}): Impostor[] => {
+  const random = createRandom(seed);
+  const placed: (Placement & { difficulty: Difficulty })[] = [];
+
+  (['hard', 'medium', 'easy'] as const).forEach((difficulty) => {
+    const { width: widthRange, height: heightRange } = SIZES[difficulty];
+
+    for (let i = 0; i < mix[difficulty]; i++) {
+      const width = round(randomBetween(random, ...widthRange));
+      const height = round(randomBetween(random, ...heightRange));
+
+      for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+        const candidate = {
+          x: round(randomBetween(random, EDGE_MARGIN, 100 - EDGE_MARGIN - width)),
+          y: round(randomBetween(random, EDGE_MARGIN, 100 - EDGE_MARGIN - height)),
+          width,
+          height,
+        };
+        if (!placed.some((other) => overlaps(candidate, other))) {
+          placed.push({ ...candidate, difficulty });
+          break;
+        }
+      }
+      // A crowded mix can run out of room; the level then has fewer impostors (see getLevelMix)
+    }
+  });
+
+  // Reading order keeps ids stable and unrelated to placement order
+  return placed
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .map((placement, index) => {
+      const impostor: Impostor = { ...placement, id: `impostor_${index}`, found: false };
+      // Smaller aliens get a round hitbox that matches the drawn sprite instead of its corners
+      if (placement.difficulty !== 'easy') {
+        const center = getImpostorCenter(impostor);
+        impostor.hitShape = { kind: 'circle', cx: center.x, cy: center.y, r: placement.width / 2 };
+      }
+      return impostor;
+    });
+};
+
+/**
+ * How many impostors of each difficulty a level actually holds. A crowded mix can come up short,
+ * so games keep this rather than the mix they asked for, and the lobby shows the real count.
+ */
+export const getLevelMix = (impostors: Impostor[]): DifficultyMix => ({
+  easy: impostors.filter((impostor) => impostor.difficulty === 'easy').length,
+  medium: impostors.filter((impostor) => impostor.difficulty === 'medium').length,
+  hard: impostors.filter((impostor) => impostor.difficulty === 'hard').length,
+});
@@ -0,0 +1,23 @@
+import { Context, JSONValue } from '@devvit/public-api';
+import { GameEvent } from '../../shared/types/game';
+
+export const getGameChannel = (postId: string) => `game_${postId}` as const;
+
+/** Broadcasts game events to everyone subscribed to the post; failures never fail the request. */
+export const publishGameEvents = async ({
+  realtime,
+  postId,
+  events,
+}: {
+  realtime: Pick<Context['realtime'], 'send'>;
+  postId: string;
+  events: GameEvent[];
+}): Promise<void> => {
+  for (const event of events) {
+    try {
+      await realtime.send(getGameChannel(postId), event as JSONValue);
+    } catch (error) {
+      console.error(`Error publishing ${event.type} event:`, error);
+    }
+  }
+};
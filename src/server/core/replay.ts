@@ -0,0 +1,42 @@
+import { Context } from '@devvit/public-api';
+import { ReplayClick } from '../../shared/types/replay';
+
+const REPLAY_EXPIRY = 60 * 60 * 24 * 7; // Matches archived rounds
+
+// Every round on a post gets its own log, so a rematch starts from a clean slate
+const getReplayKey = (gameId: string, round: number) => `replay:${gameId}:${round}` as const;
+
+/** The Redis calls the replay log makes. */
+export type ReplayRedis = Pick<Context['redis'], 'zAdd' | 'expire' | 'zRange'>;
+
+/** Appends a judged click to the game's replay log, ordered by when it happened. */
+export const recordReplayClick = async ({
+  redis,
+  gameId,
+  round,
+  click,
+}: {
+  redis: ReplayRedis;
+  gameId: string;
+  round: number;
+  click: ReplayClick;
+}): Promise<void> => {
+  const key = getReplayKey(gameId, round);
+  await redis.zAdd(key, { member: JSON.stringify(click), score: click.at });
+  await redis.expire(key, REPLAY_EXPIRY);
+};
+
+export const getReplayClicks = async ({
+  redis,
+  gameId,
+  round,
+}: {
+  redis: ReplayRedis;
+  gameId: string;
+  round: number;
+}): Promise<ReplayClick[]> => {
+  const members: { member: string; score: number }[] = await redis.zRange(getReplayKey(gameId, round), 0, -1, {
+    by: 'rank',
+  });
+  return members.map(({ member }) => JSON.parse(member) as ReplayClick);
+};
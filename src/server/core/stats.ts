@@ -0,0 +1,98 @@
+import { GameState, Player } from '../../shared/types/game';
+import { PlayerStats } from '../../shared/types/stats';
+import { execTransaction, TransactionRedis } from './transaction';
+
+const MAX_TX_ATTEMPTS = 5;
+
+const getStatsKey = (userId: string) => `stats:${userId}` as const;
+
+export const createEmptyStats = (userId: string, username: string): PlayerStats => ({
+  userId,
+  username,
+  gamesPlayed: 0,
+  wins: 0,
+  found: { easy: 0, medium: 0, hard: 0 },
+  misses: 0,
+  currentStreak: 0,
+  bestStreak: 0,
+});
+
+export const getPlayerStats = async ({
+  redis,
+  userId,
+}: {
+  redis: TransactionRedis;
+  userId: string;
+}): Promise<PlayerStats | null> => {
+  const data = await redis.get(getStatsKey(userId));
+  return data ? (JSON.parse(data) as PlayerStats) : null;
+};
+
+/** Folds a finished round into the stats of everyone who played it. */
+export const recordRoundStats = async ({
+  redis,
+  gameState,
+}: {
+  redis: TransactionRedis;
+  gameState: GameState;
+}): Promise<void> => {
+  for (const player of Object.values(gameState.players)) {
+    await updatePlayerStats(redis, player, (stats) => applyRound(stats, gameState, player));
+  }
+};
+
+// Same optimistic WATCH/MULTI loop as games, since a player can finish rounds on several posts
+async function updatePlayerStats(
+  redis: TransactionRedis,
+  player: Player,
+  update: (stats: PlayerStats) => void
+): Promise<void> {
+  const key = getStatsKey(player.id);
+
+  for (let attempt = 0; attempt < MAX_TX_ATTEMPTS; attempt++) {
+    const txn = await redis.watch(key);
+    const data = await redis.get(key);
+    const stats: PlayerStats = data ? JSON.parse(data) : createEmptyStats(player.id, player.username);
+
+    update(stats);
+
+    await txn.multi();
+    await txn.set(key, JSON.stringify(stats));
+    if (await execTransaction(txn)) return;
+  }
+
+  throw new Error(`Stats for ${player.id} are too busy`);
+}
+
+function applyRound(stats: PlayerStats, gameState: GameState, player: Player): void {
+  const won =
+    gameState.mode === 'coop'
+      ? gameState.impostors.every((impostor) => impostor.found)
+      : gameState.winner === player.id;
+
+  stats.username = player.username;
+  stats.gamesPlayed += 1;
+  stats.misses += player.misses;
+  stats.lastPlayedAt = gameState.gameEndTime ?? Date.now();
+
+  for (const impostorId of player.foundImpostors) {
+    const impostor = gameState.impostors.find((imp) => imp.id === impostorId);
+    if (impostor) stats.found[impostor.difficulty] += 1;
+  }
+
+  if (won) {
+    stats.wins += 1;
+    stats.currentStreak += 1;
+    stats.bestStreak = Math.max(stats.bestStreak, stats.currentStreak);
+  } else {
+    stats.currentStreak = 0;
+  }
+
+  const startedAt = player.timeStarted ?? gameState.gameStartTime;
+  if (player.timeCompleted && startedAt) {
+    const clearTime = player.timeCompleted - startedAt;
+    if (stats.fastestClear === undefined || clearTime < stats.fastestClear) {
+      stats.fastestClear = clearTime;
+    }
+  }
+}
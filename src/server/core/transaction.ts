@@ -0,0 +1,36 @@
+/**
+ * Devvit passes on the Redis client's "redis: transaction failed" when a watched key changed
+ * before EXEC, rather than resolving to null as plain Redis does.
+ */
+export const TRANSACTION_CONFLICT_MESSAGE = 'redis: transaction failed';
+
+const isTransactionConflict = (error: unknown) =>
+  error instanceof Error && error.message.includes(TRANSACTION_CONFLICT_MESSAGE);
+
+/** The commands games and stats queue between WATCH and EXEC. */
+export interface RedisTransaction {
+  multi(): Promise<void>;
+  set(key: string, value: string, options?: { expiration?: Date }): Promise<unknown>;
+  exec(): Promise<unknown[]>;
+  unwatch(): Promise<unknown>;
+}
+
+/** Reads a key and watches it for a transaction; Devvit's client and `MockRedis` both fit. */
+export interface TransactionRedis {
+  get(key: string): Promise<string | null | undefined>;
+  watch(key: string): Promise<RedisTransaction>;
+}
+
+/**
+ * Runs a queued transaction, returning false when a watched key changed underneath it. Any other
+ * failure is a real error and is rethrown.
+ */
+export async function execTransaction(txn: Pick<RedisTransaction, 'exec'>): Promise<boolean> {
+  try {
+    await txn.exec();
+    return true;
+  } catch (error) {
+    if (isTransactionConflict(error)) return false;
+    throw error;
+  }
+}
@@ -0,0 +1,64 @@
+import { GameState, GameView, Impostor, ImpostorSprite, Player, PlayerView } from '../../shared/types/game';
+import { createRandom } from '../../shared/random';
+import { getImpostorCenter } from '../../shared/geometry';
+
+const SPRITE_SCALE: Record<Impostor['difficulty'], number> = {
+  easy: 0.8,
+  medium: 0.5,
+  hard: 0.3,
+};
+
+// One-way stand-in for the level seed so clients can draw the same crowd without rebuilding the level
+const getSceneSeed = (seed: string) => {
+  const random = createRandom(`${seed}:scene`);
+  return [random(), random()].map((n) => Math.floor(n * 2 ** 32).toString(36)).join('');
+};
+
+// Shuffled so a sprite's key or position in the list says nothing about the impostor behind it
+export const getSprites = (gameState: GameState): ImpostorSprite[] => {
+  const random = createRandom(`${gameState.seed}:sprites`);
+  const impostors = [...gameState.impostors];
+  for (let i = impostors.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [impostors[i], impostors[j]] = [impostors[j]!, impostors[i]!];
+  }
+
+  return impostors.map((impostor, i) => ({
+    key: `sprite_${i}`,
+    ...getImpostorCenter(impostor),
+    scale: SPRITE_SCALE[impostor.difficulty],
+  }));
+};
+
+const isRevealedTo = (gameState: GameState, impostor: Impostor, viewer: Player | undefined) => {
+  if (gameState.phase === 'ended') return true;
+  if (gameState.mode === 'independent') return !!viewer?.foundImpostors.includes(impostor.id);
+  return impostor.found;
+};
+
+export const toPlayerView = (player: Player, viewerId?: string): PlayerView => {
+  const { foundImpostors, ledger, recentClicks: _recentClicks, cooldownUntil: _cooldownUntil, ...rest } = player;
+  return {
+    ...rest,
+    foundCount: foundImpostors.length,
+    ...(player.id === viewerId && { foundImpostors, ledger }),
+  };
+};
+
+/** Projects the stored game for one viewer, leaving out anything that would give away an answer. */
+export const toGameView = (gameState: GameState, viewerId?: string): GameView => {
+  const { seed, players, impostors, ...rest } = gameState;
+  const viewer = viewerId ? players[viewerId] : undefined;
+
+  return {
+    ...rest,
+    // The seed rebuilds the level, so nobody gets it, host included, until the round is over
+    ...(gameState.phase === 'ended' && { seed }),
+    sceneSeed: getSceneSeed(seed),
+    sprites: getSprites(gameState),
+    impostors: impostors.filter((impostor) => isRevealedTo(gameState, impostor, viewer)),
+    players: Object.fromEntries(
+      Object.entries(players).map(([id, player]) => [id, toPlayerView(player, viewerId)])
+    ),
+  };
+};
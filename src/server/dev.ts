@@ -0,0 +1,195 @@
+// In-process stand-ins for the Devvit services, used when the server runs outside Reddit
+import type { JSONObject, JSONValue } from '@devvit/public-api';
+import { TRANSACTION_CONFLICT_MESSAGE } from './core/transaction';
+
+// Mock Redis for development
+export class MockRedis {
+  private storage = new Map<string, string>();
+  private versions = new Map<string, number>(); // Bumped on every write so WATCH can spot conflicts
+  private sortedSets = new Map<string, Map<string, number>>();
+  private hashes = new Map<string, Map<string, string>>();
+  
+  async get(key: string): Promise<string | null> {
+    const value = this.storage.get(key);
+    console.log(`MockRedis GET ${key}: ${value ? 'found' : 'not found'}`);
+    return value || null;
+  }
+  
+  async set(key: string, value: string, _options?: { expiration?: Date }): Promise<void> {
+    console.log(`MockRedis SET ${key}: ${value.length} chars`);
+    this.storage.set(key, value);
+    this.versions.set(key, (this.versions.get(key) ?? 0) + 1);
+  }
+
+  async expire(key: string, seconds: number): Promise<void> {
+    console.log(`MockRedis EXPIRE ${key}: ${seconds}s (ignored)`);
+  }
+
+  async zAdd(key: string, ...members: { member: string; score: number }[]): Promise<number> {
+    const set = this.sortedSets.get(key) ?? new Map<string, number>();
+    const added = members.filter(({ member }) => !set.has(member)).length;
+    members.forEach(({ member, score }) => set.set(member, score));
+    this.sortedSets.set(key, set);
+    return added;
+  }
+
+  async zIncrBy(key: string, member: string, value: number): Promise<number> {
+    const set = this.sortedSets.get(key) ?? new Map<string, number>();
+    const score = (set.get(member) ?? 0) + value;
+    set.set(member, score);
+    this.sortedSets.set(key, set);
+    return score;
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.sortedSets.get(key)?.size ?? 0;
+  }
+
+  async zScore(key: string, member: string): Promise<number | undefined> {
+    return this.sortedSets.get(key)?.get(member);
+  }
+
+  async zRank(key: string, member: string): Promise<number | undefined> {
+    const index = this.sortedMembers(key).findIndex((entry) => entry.member === member);
+    return index === -1 ? undefined : index;
+  }
+
+  // Only ranges by rank, which is all the game uses
+  async zRange(
+    key: string,
+    start: number,
+    stop: number,
+    options?: { by: 'rank'; reverse?: boolean }
+  ): Promise<{ member: string; score: number }[]> {
+    const members = this.sortedMembers(key);
+    if (options?.reverse) members.reverse();
+    return members.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  async hSet(key: string, fieldValues: Record<string, string>): Promise<number> {
+    const hash = this.hashes.get(key) ?? new Map<string, string>();
+    const added = Object.keys(fieldValues).filter((field) => !hash.has(field)).length;
+    Object.entries(fieldValues).forEach(([field, value]) => hash.set(field, value));
+    this.hashes.set(key, hash);
+    return added;
+  }
+
+  async hMGet(key: string, fields: string[]): Promise<(string | null)[]> {
+    const hash = this.hashes.get(key);
+    return fields.map((field) => hash?.get(field) ?? null);
+  }
+
+  // Ascending by score, ties broken by member like Redis does
+  private sortedMembers(key: string) {
+    return [...(this.sortedSets.get(key) ?? [])]
+      .map(([member, score]) => ({ member, score }))
+      .sort((a, b) => a.score - b.score || (a.member < b.member ? -1 : a.member > b.member ? 1 : 0));
+  }
+
+  async watch(...keys: string[]): Promise<MockTransaction> {
+    return new MockTransaction(this, new Map(keys.map((key) => [key, this.version(key)])));
+  }
+
+  version(key: string): number {
+    return this.versions.get(key) ?? 0;
+  }
+}
+
+// Mirrors Redis WATCH/MULTI/EXEC: queued commands only run if no watched key changed
+export class MockTransaction {
+  private queue: (() => Promise<unknown>)[] = [];
+
+  constructor(
+    private redis: MockRedis,
+    private watched: Map<string, number>
+  ) {}
+
+  async multi(): Promise<void> {}
+
+  async set(key: string, value: string, options?: { expiration?: Date }): Promise<void> {
+    this.queue.push(() => this.redis.set(key, value, options));
+  }
+
+  // Fails on a conflict the way Devvit's Redis does, so callers handle both alike
+  async exec(): Promise<unknown[]> {
+    const conflict = [...this.watched].some(([key, version]) => this.redis.version(key) !== version);
+    if (conflict) {
+      console.log('MockRedis EXEC aborted: watched key changed');
+      throw new Error(TRANSACTION_CONFLICT_MESSAGE);
+    }
+    const results = [];
+    for (const command of this.queue) {
+      results.push(await command());
+    }
+    return results;
+  }
+
+  async unwatch(): Promise<void> {
+    this.watched.clear();
+  }
+
+  async discard(): Promise<void> {
+    this.queue = [];
+    this.watched.clear();
+  }
+}
+
+type MockJobHandler = (data: JSONObject | undefined) => Promise<unknown>;
+
+// Mock scheduler for development: runs one-off jobs with timers in this process
+export class MockScheduler {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private nextId = 0;
+
+  constructor(private handlers: Record<string, MockJobHandler>) {}
+
+  async runJob({ name, runAt, data }: { name: string; runAt: Date; data?: JSONObject }): Promise<string> {
+    const handler = this.handlers[name];
+    if (!handler) {
+      throw new Error(`No handler registered for job ${name}`);
+    }
+
+    const id = `mock_job_${++this.nextId}`;
+    const delay = Math.max(0, runAt.getTime() - Date.now());
+    console.log(`MockScheduler RUN ${name} in ${Math.round(delay / 1000)}s (${id})`);
+
+    this.timers.set(
+      id,
+      setTimeout(() => {
+        this.timers.delete(id);
+        handler(data).catch((error) => console.error(`MockScheduler job ${name} failed:`, error));
+      }, delay)
+    );
+    return id;
+  }
+
+  async cancelJob(id: string): Promise<void> {
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+  }
+}
+
+const MOCK_REALTIME_BACKLOG = 200; // Messages kept per channel for polling clients
+
+// Mock realtime for development: keeps recent messages so the webview can poll for them
+export class MockRealtime {
+  private channels = new Map<string, { seq: number; message: JSONValue }[]>();
+  private seq = 0;
+
+  async send(channel: string, message: JSONValue): Promise<void> {
+    const messages = this.channels.get(channel) ?? [];
+    messages.push({ seq: ++this.seq, message });
+    this.channels.set(channel, messages.slice(-MOCK_REALTIME_BACKLOG));
+    console.log(`MockRealtime SEND ${channel} #${this.seq}`);
+  }
+
+  /** Messages after `since`, plus the cursor to pass next time. Without `since`, only the cursor. */
+  poll(channel: string, since?: number): { messages: JSONValue[]; cursor: number } {
+    if (since === undefined) return { messages: [], cursor: this.seq };
+
+    const messages = (this.channels.get(channel) ?? [])
+      .filter((entry) => entry.seq > since)
+      .map((entry) => entry.message);
+    return { messages, cursor: this.seq };
+  }
+}
@@ -0,0 +1,50 @@
+import { Response } from 'express';
+import { ApiErrorResponse } from '../shared/types/api';
+import { ApiErrorCode, GameRejection } from '../shared/types/errors';
+
+const ERROR_STATUSES: Record<ApiErrorCode, number> = {
+  'invalid-request': 400,
+  'needs-target': 400,
+  'cannot-kick-self': 400,
+  'not-logged-in': 401,
+  kicked: 403,
+  'not-host': 403,
+  'not-in-game': 403,
+  spectating: 403,
+  'not-found': 404,
+  'game-not-found': 404,
+  'player-not-found': 404,
+  'no-such-team': 404,
+  // The request was fine, but the game is not in a state to accept it
+  'already-playing': 409,
+  'not-spectating': 409,
+  'already-started': 409,
+  'not-enough-players': 409,
+  'round-not-running': 409,
+  'round-not-over': 409,
+  'replay-unavailable': 409,
+  'invalid-settings': 409,
+  'teams-in-coop': 409,
+  'no-teams': 409,
+  'nothing-left': 409,
+  'freeze-used': 409,
+  'not-enough-points': 409,
+  throttled: 429,
+  'server-error': 500,
+};
+
+/** Answers with the status that goes with `code`, so every route reports failures the same way. */
+export const sendError = (
+  res: Response,
+  code: ApiErrorCode,
+  message: string,
+  details?: Pick<ApiErrorResponse, 'retryAfter'>
+) => {
+  res.status(ERROR_STATUSES[code]).json({ status: 'error', code, message, ...details } satisfies ApiErrorResponse);
+};
+
+export const sendRejection = (res: Response, rejection: GameRejection) =>
+  sendError(res, rejection.code, rejection.message);
+
+export const sendServerError = (res: Response, error: unknown) =>
+  sendError(res, 'server-error', `Server error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -1,13 +1,41 @@
 import express from 'express';
+import { Context } from '@devvit/public-api';
 import { createServer, getServerPort } from '@devvit/server';
 import {
   createGame,
   getGame,
+  getArchivedRound,
   joinGame,
   startGame,
   findImpostor,
-  updateGameTimer,
+  finishRound,
+  END_ROUND_JOB,
+  activatePowerUp,
+  updateSettings,
+  setTeams,
+  autoBalanceTeams,
+  chooseTeam,
+  spectateGame,
+  queueForNextRound,
+  startRematch,
+  leaveGame,
+  kickPlayer,
+  sendHeartbeat,
 } from './core/game';
+import { getGameChannel } from './core/realtime';
+import { toGameView } from './core/view';
+import { getLeaderboard } from './core/leaderboard';
+import { createEmptyStats, getPlayerStats } from './core/stats';
+import { getReplayClicks } from './core/replay';
+import { GameReplay } from '../shared/types/replay';
+import { GameEvent } from '../shared/types/game';
+import { ApiResponses } from '../shared/types/api';
+import { API_ROUTES } from '../shared/api';
+import { DEFAULT_LEADERBOARD_PAGE } from '../shared/leaderboard';
+import { clampAspect } from '../shared/geometry';
+import { getBody, getQuery, validateRequest } from './validate';
+import { sendError, sendRejection, sendServerError } from './errors';
+import { MockRealtime, MockRedis, MockScheduler } from './dev';
 
 const app = express();
 
@@ -49,26 +77,20 @@ const isDevelopment = () => {
   }
 };
 
-// Mock Redis for development
-class MockRedis {
-  private storage = new Map<string, string>();
-  
-  async get(key: string): Promise<string | null> {
-    const value = this.storage.get(key);
-    console.log(`MockRedis GET ${key}: ${value ? 'found' : 'not found'}`);
-    return value || null;
-  }
-  
-  async set(key: string, value: string, _options?: { expiration?: Date }): Promise<void> {
-    console.log(`MockRedis SET ${key}: ${value.length} chars`);
-    this.storage.set(key, value);
-  }
-}
-
 const mockRedis = new MockRedis();
+const mockRealtime = new MockRealtime();
+const mockScheduler = new MockScheduler({
+  [END_ROUND_JOB]: async (data) =>
+    finishRound({
+      redis: mockRedis,
+      realtime: mockRealtime,
+      postId: String(data?.postId),
+      roundStartedAt: Number(data?.roundStartedAt),
+    }),
+});
 
 // Health check endpoint
-router.get('/api/health', (_req, res) => {
+router.get(API_ROUTES.health.path, (_req, res) => {
   try {
     const devMode = isDevelopment();
     let contextInfo = null;
@@ -94,27 +116,32 @@ router.get('/api/health', (_req, res) => {
       timestamp: new Date().toISOString(),
       development: devMode,
       context: contextInfo
-    });
+    } satisfies ApiResponses['health']);
   } catch (error) {
     console.error('Health check error:', error);
-    res.status(500).json({
-      status: 'error',
-      message: 'Health check failed',
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    sendError(res, 'server-error', `Health check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 });
 
+// The webview sends a per-tab id so dev players keep the same identity across requests
+const getDevUserId = (req?: express.Request) => {
+  const header = req?.header('x-dev-user-id');
+  return header || `dev_user_${Math.floor(Math.random() * 1000)}`;
+};
+
 // Helper function to safely get context with development fallback
-function getSafeContext() {
+function getSafeContext(req?: express.Request) {
   const devMode = isDevelopment();
   
   if (devMode) {
     console.log('🔧 Running in development mode - using mock context');
     return {
       postId: 'dev_post_123',
-      userId: `dev_user_${Math.floor(Math.random() * 1000)}`,
+      subredditId: 'dev_subreddit',
+      userId: getDevUserId(req),
       redis: mockRedis,
+      realtime: mockRealtime,
+      scheduler: mockScheduler,
       reddit: null,
       ui: null,
       isDevelopment: true
@@ -144,8 +171,11 @@ function getSafeContext() {
     console.error('❌ Error getting context, falling back to development mode:', error);
     return {
       postId: 'fallback_post_123',
-      userId: `fallback_user_${Math.floor(Math.random() * 1000)}`,
+      subredditId: 'dev_subreddit',
+      userId: getDevUserId(req),
       redis: mockRedis,
+      realtime: mockRealtime,
+      scheduler: mockScheduler,
       reddit: null,
       ui: null,
       isDevelopment: true
@@ -153,28 +183,35 @@ function getSafeContext() {
   }
 }
 
+/**
+ * Players go by their Reddit name, so nobody can take someone else's on the leaderboard. The name
+ * sent in the request only stands in during development, where there is no Reddit account.
+ */
+const getUsername = async (reddit: Pick<Context['reddit'], 'getCurrentUsername'> | null, requested: string) =>
+  reddit ? reddit.getCurrentUsername() : requested;
+
 // Join or create game
-router.post('/api/join', async (req, res): Promise<void> => {
+router.post(API_ROUTES.join.path, validateRequest(API_ROUTES.join), async (req, res): Promise<void> => {
   try {
     console.log('=== JOIN GAME REQUEST ===');
     console.log('Request body:', req.body);
     
-    const { username } = req.body;
-    
-    if (!username || typeof username !== 'string' || username.trim().length === 0) {
-      console.log('❌ Invalid username provided');
-      res.status(400).json({ status: 'error', message: 'Valid username is required' });
-      return;
-    }
+    const { username: requestedName, mode, seed, missPenalty } = getBody(API_ROUTES.join, res);
 
-    const context = getSafeContext();
-    const { postId, userId, redis, isDevelopment: devMode } = context;
+    const context = getSafeContext(req);
+    const { postId, subredditId, userId, redis, realtime, isDevelopment: devMode } = context;
     
-    console.log('📋 Using context:', { postId, userId, devMode });
+    console.log('📋 Using context:', { postId, subredditId, userId, devMode });
     
-    if (!postId || !userId) {
+    if (!postId || !subredditId || !userId) {
       console.error('❌ Missing postId or userId in context');
-      res.status(500).json({ status: 'error', message: 'Server configuration error' });
+      sendError(res, 'server-error', 'Server configuration error');
+      return;
+    }
+
+    const username = await getUsername(context.reddit, requestedName);
+    if (!username) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
       return;
     }
 
@@ -185,206 +222,740 @@ router.post('/api/join', async (req, res): Promise<void> => {
       gameState = await createGame({
         redis,
         postId,
+        subredditId,
         hostId: userId,
-        hostUsername: username.trim(),
+        hostUsername: username,
+        ...(mode && { mode }),
+        ...(seed && { seed }),
+        ...(missPenalty !== undefined && { missPenalty }),
       });
-    } else {
+    }
+
+    // Someone else may have created the game first, in which case we join theirs
+    let spectating = false;
+    const seat = gameState?.players[userId];
+    if (!gameState || !seat || seat.leftAt) {
       console.log('🔗 Joining existing game');
       const joinResult = await joinGame({
         redis,
+        realtime,
         postId,
         playerId: userId,
-        username: username.trim(),
+        username,
       });
       
-      if (!joinResult) {
-        res.status(400).json({ 
-          status: 'error', 
-          message: 'Cannot join game (full or other issue)' 
-        });
+      if (!joinResult.gameState) {
+        sendError(res, 'game-not-found', 'Game not found');
         return;
       }
-      gameState = joinResult;
+      if (joinResult.rejection) {
+        sendRejection(res, joinResult.rejection);
+        return;
+      }
+      gameState = joinResult.gameState;
+      spectating = joinResult.spectating;
     }
 
-    console.log('✅ Game state created/joined successfully');
+    console.log('✅ Game state created/joined successfully', spectating ? '(spectating, game is full)' : '');
     res.json({
       status: 'success',
-      gameState,
+      gameState: toGameView(gameState, userId),
       playerId: userId,
-    });
+      spectating,
+    } satisfies ApiResponses['join']);
   } catch (error) {
     console.error('❌ Error in join endpoint:', error);
-    res.status(500).json({ 
-      status: 'error', 
-      message: `Server error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    });
+    sendServerError(res, error);
+  }
+});
+
+// Watch without playing
+router.post(API_ROUTES.spectate.path, validateRequest(API_ROUTES.spectate), async (req, res): Promise<void> => {
+  try {
+    const { username: requestedName } = getBody(API_ROUTES.spectate, res);
+
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime } = context;
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+
+    const username = await getUsername(context.reddit, requestedName);
+    if (!userId || !username) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    const result = await spectateGame({ redis, realtime, postId, playerId: userId, username });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    res.json({
+      status: 'success',
+      gameState: toGameView(result.gameState, userId),
+      playerId: userId,
+      spectating: true,
+    } satisfies ApiResponses['spectate']);
+  } catch (error) {
+    console.error('❌ Error spectating game:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Spectators line up for the next free seat
+router.post(API_ROUTES.queue.path, validateRequest(API_ROUTES.queue), async (req, res): Promise<void> => {
+  try {
+    const { queued } = getBody(API_ROUTES.queue, res);
+
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime } = context;
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    const result = await queueForNextRound({ redis, realtime, postId, playerId: userId, queued });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    res.json({ status: 'success', gameState: toGameView(result.gameState, userId) } satisfies ApiResponses['queue']);
+  } catch (error) {
+    console.error('❌ Error updating queue:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Give up your seat, or stop watching
+router.post(API_ROUTES.leave.path, async (req, res): Promise<void> => {
+  try {
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime } = context;
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    const result = await leaveGame({ redis, realtime, postId, playerId: userId });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    console.log(`👋 ${userId} left ${postId}`);
+    res.json({ status: 'success', gameState: toGameView(result.gameState, userId) } satisfies ApiResponses['leave']);
+  } catch (error) {
+    console.error('❌ Error leaving game:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Remove a player or spectator for good (host only)
+router.post(API_ROUTES.kick.path, validateRequest(API_ROUTES.kick), async (req, res): Promise<void> => {
+  try {
+    const { playerId } = getBody(API_ROUTES.kick, res);
+
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime } = context;
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    const result = await kickPlayer({ redis, realtime, postId, playerId: userId, targetId: playerId });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    console.log(`🚫 ${playerId} removed from ${postId} by ${userId}`);
+    res.json({ status: 'success', gameState: toGameView(result.gameState, userId) } satisfies ApiResponses['kick']);
+  } catch (error) {
+    console.error('❌ Error removing player:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Open posts report in so the lobby can tell who is still around
+router.post(API_ROUTES.heartbeat.path, async (req, res): Promise<void> => {
+  try {
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime } = context;
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    const gameState = await sendHeartbeat({ redis, realtime, postId, playerId: userId });
+
+    if (!gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+
+    // Kept small since every open post sends one; the regular resync carries everyone's presence
+    res.json({ status: 'success' } satisfies ApiResponses['heartbeat']);
+  } catch (error) {
+    console.error('❌ Error recording heartbeat:', error);
+    sendServerError(res, error);
   }
 });
 
 // Get current game state
-router.get('/api/game-state', async (_req, res): Promise<void> => {
+router.get(API_ROUTES.gameState.path, async (req, res): Promise<void> => {
   try {
     console.log('=== GAME STATE REQUEST ===');
     
-    const context = getSafeContext();
-    const { postId, redis, isDevelopment: devMode } = context;
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime, isDevelopment: devMode } = context;
     
     console.log('📋 Game state context:', { postId, devMode });
 
     if (!postId) {
       console.log('❌ No postId for game state');
-      res.status(404).json({ status: 'error', message: 'Game not found' });
+      sendError(res, 'game-not-found', 'Game not found');
       return;
     }
 
-    const gameState = await getGame({ redis, postId });
+    let gameState = await getGame({ redis, postId });
+
+    // Safety net in case the end-of-round job has not fired yet
+    if (gameState?.phase === 'playing' && gameState.timeLeft === 0) {
+      gameState = await finishRound({ redis, realtime, postId, roundStartedAt: gameState.gameStartTime });
+    }
     
     if (!gameState) {
       console.log('📭 No game state found for postId:', postId);
-      res.status(404).json({ status: 'error', message: 'Game not found' });
+      sendError(res, 'game-not-found', 'Game not found');
       return;
     }
 
     console.log('✅ Game state retrieved successfully');
     res.json({
       status: 'success',
-      gameState,
-    });
+      gameState: toGameView(gameState, userId),
+      playerId: userId,
+    } satisfies ApiResponses['gameState']);
   } catch (error) {
     console.error('❌ Error getting game state:', error);
-    res.status(500).json({ 
-      status: 'error', 
-      message: `Server error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    });
+    sendServerError(res, error);
   }
 });
 
 // Start game (host only)
-router.post('/api/start-game', async (_req, res): Promise<void> => {
+router.post(API_ROUTES.startGame.path, async (req, res): Promise<void> => {
   try {
     console.log('=== START GAME REQUEST ===');
     
-    const context = getSafeContext();
-    const { postId, userId, redis, isDevelopment: devMode } = context;
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime, scheduler, isDevelopment: devMode } = context;
     
     console.log('📋 Start game context:', { postId, userId, devMode });
 
     if (!postId) {
-      res.status(400).json({ status: 'error', message: 'postId is required' });
+      sendError(res, 'invalid-request', 'postId is required');
       return;
     }
     if (!userId) {
-      res.status(400).json({ status: 'error', message: 'Must be logged in' });
+      sendError(res, 'not-logged-in', 'Must be logged in');
       return;
     }
 
-    const gameState = await startGame({ redis, postId, playerId: userId });
-    
-    if (!gameState) {
-      res.status(400).json({ 
-        status: 'error', 
-        message: 'Cannot start game (not host, already started, or not enough players)' 
-      });
+    const result = await startGame({ redis, realtime, scheduler, postId, playerId: userId });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
       return;
     }
 
     console.log('✅ Game started successfully');
     res.json({
       status: 'success',
-      gameState,
-    });
+      gameState: toGameView(result.gameState, userId),
+    } satisfies ApiResponses['startGame']);
   } catch (error) {
     console.error('❌ Error starting game:', error);
-    res.status(500).json({ 
-      status: 'error', 
-      message: `Server error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    });
+    sendServerError(res, error);
+  }
+});
+
+// Open a new round on the same post once the last one is over (host only)
+router.post(API_ROUTES.rematch.path, async (req, res): Promise<void> => {
+  try {
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime } = context;
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    const result = await startRematch({ redis, realtime, postId, playerId: userId });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    console.log(`✅ Round ${result.gameState.round} opened on ${postId}`);
+    res.json({ status: 'success', gameState: toGameView(result.gameState, userId) } satisfies ApiResponses['rematch']);
+  } catch (error) {
+    console.error('❌ Error starting rematch:', error);
+    sendServerError(res, error);
   }
 });
 
 // Find impostor
-router.post('/api/find-impostor', async (req, res): Promise<void> => {
+router.post(API_ROUTES.findImpostor.path, validateRequest(API_ROUTES.findImpostor), async (req, res): Promise<void> => {
   try {
     console.log('=== FIND IMPOSTOR REQUEST ===');
     console.log('Request body:', req.body);
     
-    const { x, y } = req.body;
-    
-    if (typeof x !== 'number' || typeof y !== 'number') {
-      res.status(400).json({ status: 'error', message: 'Valid x and y coordinates required' });
-      return;
-    }
-    
-    const context = getSafeContext();
-    const { postId, userId, redis, isDevelopment: devMode } = context;
+    const { x, y, aspect } = getBody(API_ROUTES.findImpostor, res);
+
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime, isDevelopment: devMode } = context;
     
     console.log('📋 Find impostor context:', { postId, userId, devMode });
 
     if (!postId) {
-      res.status(400).json({ status: 'error', message: 'postId is required' });
+      sendError(res, 'invalid-request', 'postId is required');
       return;
     }
     if (!userId) {
-      res.status(400).json({ status: 'error', message: 'Must be logged in' });
+      sendError(res, 'not-logged-in', 'Must be logged in');
       return;
     }
 
-    const result = await findImpostor({ redis, postId, playerId: userId, x, y });
+    const result = await findImpostor({
+      redis,
+      realtime,
+      postId,
+      playerId: userId,
+      x,
+      y,
+      ...(aspect !== undefined && { aspect: clampAspect(aspect) }),
+    });
     
     if (!result.gameState) {
-      res.status(404).json({ status: 'error', message: 'Game not found' });
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    if (result.retryAfter !== undefined) {
+      console.log('🛑 Find impostor throttled:', { userId, retryAfter: result.retryAfter });
+      res.set('Retry-After', String(Math.ceil(result.retryAfter / 1000)));
+      sendError(res, 'throttled', 'Too many clicks, slow down', { retryAfter: result.retryAfter });
       return;
     }
 
     console.log('✅ Find impostor completed:', { found: result.found, score: result.score });
     res.json({
       status: 'success',
-      gameState: result.gameState,
+      gameState: toGameView(result.gameState, userId),
       found: result.found,
       impostor: result.impostor,
       score: result.score,
-    });
+      penalty: result.penalty,
+    } satisfies ApiResponses['findImpostor']);
   } catch (error) {
     console.error('❌ Error finding impostor:', error);
-    res.status(500).json({ 
-      status: 'error', 
-      message: `Server error: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    });
+    sendServerError(res, error);
   }
 });
 
-// Update game timer
-router.post('/api/update-timer', async (_req, res): Promise<void> => {
+// Host-only lobby settings; any subset of them may be sent
+router.post(API_ROUTES.settings.path, validateRequest(API_ROUTES.settings), async (req, res): Promise<void> => {
   try {
-    const context = getSafeContext();
-    const { postId, redis } = context;
+    console.log('=== UPDATE SETTINGS REQUEST ===');
+    console.log('Request body:', req.body);
+
+    const settings = getBody(API_ROUTES.settings, res);
+
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime, isDevelopment: devMode } = context;
+
+    console.log('📋 Settings context:', { postId, userId, devMode });
 
     if (!postId) {
-      res.status(400).json({ status: 'error', message: 'postId is required' });
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
       return;
     }
 
-    const gameState = await updateGameTimer({ redis, postId });
-    
-    if (!gameState) {
-      res.status(404).json({ status: 'error', message: 'Game not found' });
+    const result = await updateSettings({ redis, realtime, postId, playerId: userId, settings });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    console.log('✅ Settings updated:', settings);
+    res.json({ status: 'success', gameState: toGameView(result.gameState, userId) } satisfies ApiResponses['settings']);
+  } catch (error) {
+    console.error('❌ Error updating settings:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Host sets up teams by name; an empty list goes back to every player for themselves
+router.post(API_ROUTES.teams.path, validateRequest(API_ROUTES.teams), async (req, res): Promise<void> => {
+  try {
+    console.log('=== SET TEAMS REQUEST ===');
+    console.log('Request body:', req.body);
+
+    const { names } = getBody(API_ROUTES.teams, res);
+
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime } = context;
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
       return;
     }
 
+    const result = await setTeams({ redis, realtime, postId, playerId: userId, names });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    console.log('✅ Teams set:', names);
+    res.json({ status: 'success', gameState: toGameView(result.gameState, userId) } satisfies ApiResponses['teams']);
+  } catch (error) {
+    console.error('❌ Error setting teams:', error);
+    sendServerError(res, error);
+  }
+});
+
+router.post(API_ROUTES.balanceTeams.path, async (req, res): Promise<void> => {
+  try {
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime } = context;
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    const result = await autoBalanceTeams({ redis, realtime, postId, playerId: userId });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    res.json({ status: 'success', gameState: toGameView(result.gameState, userId) } satisfies ApiResponses['balanceTeams']);
+  } catch (error) {
+    console.error('❌ Error balancing teams:', error);
+    sendServerError(res, error);
+  }
+});
+
+router.post(API_ROUTES.joinTeam.path, validateRequest(API_ROUTES.joinTeam), async (req, res): Promise<void> => {
+  try {
+    const { teamId } = getBody(API_ROUTES.joinTeam, res);
+
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime } = context;
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    const result = await chooseTeam({ redis, realtime, postId, playerId: userId, teamId });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+    if (result.rejection) {
+      sendRejection(res, result.rejection);
+      return;
+    }
+
+    res.json({ status: 'success', gameState: toGameView(result.gameState, userId) } satisfies ApiResponses['joinTeam']);
+  } catch (error) {
+    console.error('❌ Error choosing team:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Use a power-up, paid for with a charge or with points
+router.post(API_ROUTES.powerUp.path, validateRequest(API_ROUTES.powerUp), async (req, res): Promise<void> => {
+  try {
+    console.log('=== POWER-UP REQUEST ===');
+    console.log('Request body:', req.body);
+
+    const { powerUp, x, y } = getBody(API_ROUTES.powerUp, res);
+
+    const context = getSafeContext(req);
+    const { postId, userId, redis, realtime, scheduler, isDevelopment: devMode } = context;
+
+    console.log('📋 Power-up context:', { postId, userId, devMode });
+
+    if (!postId) {
+      sendError(res, 'invalid-request', 'postId is required');
+      return;
+    }
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    const result = await activatePowerUp({ redis, realtime, scheduler, postId, playerId: userId, powerUp, x, y });
+
+    if (!result.gameState) {
+      sendError(res, 'game-not-found', 'Game not found');
+      return;
+    }
+
+    if (result.rejection || !result.effect) {
+      sendRejection(res, result.rejection ?? { code: 'server-error', message: 'Power-up failed' });
+      return;
+    }
+
+    console.log('✅ Power-up used:', { powerUp, userId });
     res.json({
       status: 'success',
-      gameState,
-    });
+      gameState: toGameView(result.gameState, userId),
+      effect: result.effect,
+    } satisfies ApiResponses['powerUp']);
   } catch (error) {
-    console.error('❌ Error updating timer:', error);
-    res.status(500).json({ 
-      status: 'error', 
-      message: `Server error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    console.error('❌ Error using power-up:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Subreddit leaderboard, paginated, with the viewer's own rank
+router.get(API_ROUTES.leaderboard.path, validateRequest(API_ROUTES.leaderboard), async (req, res): Promise<void> => {
+  try {
+    const { period = 'all-time', offset = 0, limit = DEFAULT_LEADERBOARD_PAGE } = getQuery(API_ROUTES.leaderboard, res);
+
+    const context = getSafeContext(req);
+    const { subredditId, userId, redis } = context;
+
+    if (!subredditId) {
+      sendError(res, 'invalid-request', 'subredditId is required');
+      return;
+    }
+
+    const leaderboard = await getLeaderboard({
+      redis,
+      subredditId,
+      period,
+      offset,
+      limit,
+      viewerId: userId,
     });
+
+    res.json({ status: 'success', leaderboard } satisfies ApiResponses['leaderboard']);
+  } catch (error) {
+    console.error('❌ Error getting leaderboard:', error);
+    sendServerError(res, error);
   }
 });
 
+// The requesting player's stats across every finished round
+router.get(API_ROUTES.myStats.path, async (req, res): Promise<void> => {
+  try {
+    const context = getSafeContext(req);
+    const { userId, redis } = context;
+
+    if (!userId) {
+      sendError(res, 'not-logged-in', 'Must be logged in');
+      return;
+    }
+
+    // Someone who has not finished a round yet simply has empty stats
+    const stats = (await getPlayerStats({ redis, userId })) ?? createEmptyStats(userId, '');
+    res.json({ status: 'success', stats } satisfies ApiResponses['myStats']);
+  } catch (error) {
+    console.error('❌ Error getting own stats:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Another player's public profile
+router.get(API_ROUTES.userStats.path, async (req, res): Promise<void> => {
+  try {
+    const { redis } = getSafeContext(req);
+    const stats = await getPlayerStats({ redis, userId: req.params.id });
+
+    if (!stats) {
+      sendError(res, 'not-found', 'No stats for this player yet');
+      return;
+    }
+
+    res.json({ status: 'success', stats } satisfies ApiResponses['userStats']);
+  } catch (error) {
+    console.error('❌ Error getting player stats:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Click-by-click log of a finished round; `round` picks an earlier round on the same post
+router.get(API_ROUTES.replay.path, validateRequest(API_ROUTES.replay), async (req, res): Promise<void> => {
+  try {
+    const { gameId } = req.params;
+    const { userId, redis } = getSafeContext(req);
+
+    const { round } = getQuery(API_ROUTES.replay, res);
+
+    const current = await getGame({ redis, postId: gameId });
+    const gameState =
+      round === undefined || round === current?.round
+        ? current
+        : await getArchivedRound({ redis, postId: gameId, round });
+    if (!gameState) {
+      if (round) {
+        sendError(res, 'not-found', `Round ${round} not found`);
+      } else {
+        sendError(res, 'game-not-found', 'Game not found');
+      }
+      return;
+    }
+
+    // During a round the log would give away where everyone has been clicking
+    if (gameState.phase !== 'ended' || !gameState.gameStartTime || !gameState.gameEndTime) {
+      sendError(res, 'replay-unavailable', 'Replays are available once the round is over');
+      return;
+    }
+
+    const view = toGameView(gameState, userId);
+    const replay: GameReplay = {
+      gameId,
+      round: gameState.round,
+      mode: gameState.mode,
+      sceneSeed: view.sceneSeed,
+      sprites: view.sprites,
+      impostors: view.impostors,
+      players: Object.fromEntries(Object.values(gameState.players).map((player) => [player.id, player.username])),
+      startedAt: gameState.gameStartTime,
+      endedAt: gameState.gameEndTime,
+      clicks: await getReplayClicks({ redis, gameId, round: gameState.round }),
+    };
+
+    res.json({ status: 'success', replay } satisfies ApiResponses['replay']);
+  } catch (error) {
+    console.error('❌ Error getting replay:', error);
+    sendServerError(res, error);
+  }
+});
+
+// Poll for game events when running without Reddit's realtime service
+router.get(API_ROUTES.events.path, validateRequest(API_ROUTES.events), async (req, res): Promise<void> => {
+  const context = getSafeContext(req);
+  const { postId, isDevelopment: devMode } = context;
+
+  if (!devMode) {
+    sendError(res, 'not-found', 'Events are delivered over realtime on Reddit');
+    return;
+  }
+
+  const { since } = getQuery(API_ROUTES.events, res);
+  const { messages, cursor } = mockRealtime.poll(getGameChannel(postId), since);
+
+  // The mock only ever carries game events
+  res.json({
+    status: 'success',
+    events: messages as unknown as GameEvent[],
+    cursor,
+  } satisfies ApiResponses['events']);
+});
+
 app.use(router);
 
 // Enhanced error handling middleware
@@ -394,6 +965,7 @@ app.use((err: any, _req: express.Request, res: express.Response, _next: express.
   // Send proper JSON error response
   res.status(500).json({ 
     status: 'error', 
+    code: 'server-error',
     message: `Internal server error: ${err.message}`,
     timestamp: new Date().toISOString()
   });
@@ -404,6 +976,7 @@ app.use((req, res) => {
   console.log(`❓ 404 - Route not found: ${req.method} ${req.path}`);
   res.status(404).json({ 
     status: 'error', 
+    code: 'not-found',
     message: 'Endpoint not found',
     path: req.path,
     method: req.method,
@@ -0,0 +1,38 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApiRoute, RouteBody, RouteQuery } from '../shared/api';
+import { sendError } from './errors';
+
+/**
+ * Checks a request against its route in `API_ROUTES` and turns it away with a 400 before the
+ * handler runs. What passes is kept for the handler to read back with `getBody`/`getQuery`.
+ */
+export const validateRequest =
+  (route: ApiRoute) =>
+  // Generic over the path parameters so the route handler after it keeps their types
+  <P>(req: Request<P>, res: Response, next: NextFunction) => {
+    const reject = (message: string) => {
+      console.log(`❌ Invalid request to ${route.path}:`, message);
+      sendError(res, 'invalid-request', message);
+    };
+
+    const body = route.body?.(req.body);
+    if (body?.error !== undefined) {
+      reject(body.error);
+      return;
+    }
+
+    const query = route.query?.(req.query);
+    if (query?.error !== undefined) {
+      reject(query.error);
+      return;
+    }
+
+    // Express 5 makes req.query read-only, so checked input lives on res.locals instead
+    res.locals.body = body?.value;
+    res.locals.query = query?.value;
+    next();
+  };
+
+export const getBody = <R extends ApiRoute>(_route: R, res: Response) => res.locals.body as RouteBody<R>;
+
+export const getQuery = <R extends ApiRoute>(_route: R, res: Response) => res.locals.query as RouteQuery<R>;
@@ -0,0 +1,183 @@
+import { ApiResponses } from './types/api';
+import { LEADERBOARD_PERIODS, MAX_LEADERBOARD_PAGE } from './leaderboard';
+import { POWER_UPS } from './powerUps';
+import {
+  GAME_MODES,
+  getImpostorCount,
+  MAX_IMPOSTORS,
+  MAX_MISS_PENALTY,
+  MAX_PLAYERS,
+  MAX_TIME_LIMIT,
+  MIN_IMPOSTORS,
+  MIN_TIME_LIMIT,
+} from './settings';
+import { MAX_TEAM_NAME_LENGTH, MAX_TEAMS, MIN_TEAMS } from './teams';
+import {
+  finiteNumber,
+  flag,
+  listOf,
+  object,
+  oneOf,
+  optional,
+  refine,
+  text,
+  Validator,
+  wholeNumber,
+} from './validation';
+
+export interface ApiRoute {
+  method: 'GET' | 'POST';
+  path: string; // Express-style, with `:name` for path parameters
+  body?: Validator<object>;
+  query?: Validator<object>;
+}
+
+// On Reddit the server uses the player's account name instead; this one is for local development
+const username = text('Valid username is required');
+const mode = oneOf(GAME_MODES, `Mode must be one of: ${GAME_MODES.join(', ')}`);
+const missPenalty = wholeNumber(`Miss penalty must be 0-${MAX_MISS_PENALTY} points`, 0, MAX_MISS_PENALTY);
+const coordinate = finiteNumber('Valid x and y coordinates required');
+
+const MIX_ERROR = 'Difficulty mix must give a count for easy, medium and hard';
+const mixCount = wholeNumber(MIX_ERROR, 0, MAX_IMPOSTORS);
+const difficultyMix = refine(object({ easy: mixCount, medium: mixCount, hard: mixCount }, MIX_ERROR), (mix) => {
+  const total = getImpostorCount(mix);
+  return total < MIN_IMPOSTORS || total > MAX_IMPOSTORS
+    ? `A level needs ${MIN_IMPOSTORS}-${MAX_IMPOSTORS} impostors`
+    : undefined;
+});
+
+/**
+ * Lobby settings; only the fields present are checked. Whether they fit the game as a whole
+ * (e.g. its player count) is up to `updateSettings`.
+ */
+const settings = object({
+  mode: optional(mode),
+  timeLimit: optional(
+    wholeNumber(`Time limit must be ${MIN_TIME_LIMIT}-${MAX_TIME_LIMIT} seconds`, MIN_TIME_LIMIT, MAX_TIME_LIMIT)
+  ),
+  minPlayers: optional(wholeNumber(`Minimum players must be 1-${MAX_PLAYERS}`, 1, MAX_PLAYERS)),
+  maxPlayers: optional(wholeNumber(`Player cap must be 1-${MAX_PLAYERS}`, 1, MAX_PLAYERS)),
+  difficultyMix: optional(difficultyMix),
+  missPenalty: optional(missPenalty),
+});
+
+// An empty list goes back to every player for themselves
+const teamNames = refine(listOf(text('Team names are required', { min: 0 }), 'Team names are required'), (names) => {
+  if (names.length > 0 && (names.length < MIN_TEAMS || names.length > MAX_TEAMS)) {
+    return `Pick ${MIN_TEAMS}-${MAX_TEAMS} teams`;
+  }
+  if (names.some((name) => name.length === 0 || name.length > MAX_TEAM_NAME_LENGTH)) {
+    return `Team names must be 1-${MAX_TEAM_NAME_LENGTH} characters`;
+  }
+  if (new Set(names.map((name) => name.toLowerCase())).size !== names.length) {
+    return 'Team names must be different';
+  }
+  return undefined;
+});
+
+const LEADERBOARD_PAGE_ERROR = `Offset must be 0 or more and limit 1-${MAX_LEADERBOARD_PAGE}`;
+
+/**
+ * Every call the webview makes, with the shape of what it sends. The server checks requests
+ * against these before any handler runs, and the client builds its calls from them, so the two
+ * can't drift apart. Each route's response is listed under the same name in `ApiResponses`.
+ */
+export const API_ROUTES = {
+  health: { method: 'GET', path: '/api/health' },
+  join: {
+    method: 'POST',
+    path: '/api/join',
+    // The settings only apply when this creates the game
+    body: object({
+      username,
+      mode: optional(mode),
+      missPenalty: optional(missPenalty),
+      seed: optional(text('Seed must be 1-32 letters or digits', { pattern: /^[a-z0-9]{1,32}$/i })),
+    }),
+  },
+  spectate: { method: 'POST', path: '/api/spectate', body: object({ username }) },
+  queue: { method: 'POST', path: '/api/queue', body: object({ queued: flag('queued must be true or false') }) },
+  leave: { method: 'POST', path: '/api/leave' },
+  kick: { method: 'POST', path: '/api/kick', body: object({ playerId: text('playerId is required') }) },
+  heartbeat: { method: 'POST', path: '/api/heartbeat' },
+  gameState: { method: 'GET', path: '/api/game-state' },
+  startGame: { method: 'POST', path: '/api/start-game' },
+  rematch: { method: 'POST', path: '/api/rematch' },
+  findImpostor: {
+    method: 'POST',
+    path: '/api/find-impostor',
+    body: object({
+      x: coordinate,
+      y: coordinate,
+      aspect: optional(
+        refine(finiteNumber('Aspect ratio must be a positive number'), (aspect) =>
+          aspect > 0 ? undefined : 'Aspect ratio must be a positive number'
+        )
+      ),
+    }),
+  },
+  settings: { method: 'POST', path: '/api/settings', body: settings },
+  teams: { method: 'POST', path: '/api/teams', body: object({ names: teamNames }) },
+  balanceTeams: { method: 'POST', path: '/api/teams/balance' },
+  joinTeam: { method: 'POST', path: '/api/teams/join', body: object({ teamId: text('teamId is required') }) },
+  powerUp: {
+    method: 'POST',
+    path: '/api/power-up',
+    // Radar needs somewhere to point; the rest take no coordinates
+    body: refine(
+      object({
+        powerUp: oneOf(POWER_UPS, `Power-up must be one of: ${POWER_UPS.join(', ')}`),
+        x: optional(coordinate),
+        y: optional(coordinate),
+      }),
+      ({ x, y }) => ((x === undefined) !== (y === undefined) ? 'Valid x and y coordinates required' : undefined)
+    ),
+  },
+  leaderboard: {
+    method: 'GET',
+    path: '/api/leaderboard',
+    query: object({
+      period: optional(oneOf(LEADERBOARD_PERIODS, `Period must be one of: ${LEADERBOARD_PERIODS.join(', ')}`)),
+      offset: optional(wholeNumber(LEADERBOARD_PAGE_ERROR)),
+      limit: optional(wholeNumber(LEADERBOARD_PAGE_ERROR, 1, MAX_LEADERBOARD_PAGE)),
+    }),
+  },
+  myStats: { method: 'GET', path: '/api/me/stats' },
+  userStats: { method: 'GET', path: '/api/users/:id/stats' },
+  replay: {
+    method: 'GET',
+    path: '/api/replay/:gameId',
+    // Earlier rounds on the same post; the current one by default
+    query: object({ round: optional(wholeNumber('round must be a positive whole number', 1)) }),
+  },
+  events: {
+    method: 'GET',
+    path: '/api/events',
+    query: object({ since: optional(wholeNumber('since must be a cursor from an earlier poll')) }),
+  },
+} as const satisfies Record<keyof ApiResponses, ApiRoute>;
+
+export type ApiRouteName = keyof typeof API_ROUTES;
+
+export type RouteBody<R> = R extends { body: Validator<infer B> } ? B : undefined;
+export type RouteQuery<R> = R extends { query: Validator<infer Q> } ? Q : undefined;
+
+type PathParams<P> = P extends `${string}:${infer Param}/${infer Rest}`
+  ? Param | PathParams<`/${Rest}`>
+  : P extends `${string}:${infer Param}`
+    ? Param
+    : never;
+
+/** What a call to the route has to supply: its body, query and path parameters, where it has any. */
+export type ApiRequest<K extends ApiRouteName> = (RouteBody<(typeof API_ROUTES)[K]> extends infer B
+  ? B extends undefined
+    ? unknown
+    : { body: B }
+  : never) &
+  (RouteQuery<(typeof API_ROUTES)[K]> extends infer Q ? (Q extends undefined ? unknown : { query?: Q }) : never) &
+  ([PathParams<(typeof API_ROUTES)[K]['path']>] extends [never]
+    ? unknown
+    : { params: Record<PathParams<(typeof API_ROUTES)[K]['path']>, string> });
+
+export type ApiResult<K extends ApiRouteName> = ApiResponses[K];
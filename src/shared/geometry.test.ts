@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clientToScene,
+  hitsImpostor,
+  hitTest,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  panViewport,
+  scaleHitShape,
+  zoomViewport,
+} from './geometry';
+import { HitShape } from './types/geometry';
+
+const rect: HitShape = { kind: 'rect', x: 10, y: 20, width: 30, height: 10 };
+const circle: HitShape = { kind: 'circle', cx: 50, cy: 50, r: 10 };
+// A right triangle with its corner at the bottom left
+const triangle: HitShape = {
+  kind: 'polygon',
+  points: [
+    { x: 0, y: 0 },
+    { x: 0, y: 40 },
+    { x: 40, y: 40 },
+  ],
+};
+
+describe('hitTest', () => {
+  it('hits inside a rect, edges included', () => {
+    expect(hitTest(rect, { x: 25, y: 25 })).toBe(true);
+    expect(hitTest(rect, { x: 10, y: 20 })).toBe(true);
+    expect(hitTest(rect, { x: 40, y: 30 })).toBe(true);
+    expect(hitTest(rect, { x: 41, y: 25 })).toBe(false);
+    expect(hitTest(rect, { x: 25, y: 19 })).toBe(false);
+  });
+
+  it('hits inside a circle', () => {
+    expect(hitTest(circle, { x: 50, y: 50 })).toBe(true);
+    expect(hitTest(circle, { x: 57, y: 57 })).toBe(true);
+    expect(hitTest(circle, { x: 58, y: 58 })).toBe(false);
+  });
+
+  it('keeps a circle round in a scene wider than it is tall', () => {
+    // At 2:1 a percent down is half as many pixels as a percent across
+    expect(hitTest(circle, { x: 50, y: 65 }, 1)).toBe(false);
+    expect(hitTest(circle, { x: 50, y: 65 }, 2)).toBe(true);
+    expect(hitTest(circle, { x: 50, y: 75 }, 2)).toBe(false);
+    expect(hitTest(circle, { x: 61, y: 50 }, 2)).toBe(false);
+  });
+
+  it('keeps a circle round in a scene taller than it is wide', () => {
+    expect(hitTest(circle, { x: 50, y: 56 }, 0.5)).toBe(false);
+    expect(hitTest(circle, { x: 50, y: 54 }, 0.5)).toBe(true);
+  });
+
+  it('hits inside a polygon but not in its bounding box', () => {
+    expect(hitTest(triangle, { x: 10, y: 30 })).toBe(true);
+    expect(hitTest(triangle, { x: 30, y: 10 })).toBe(false);
+    expect(hitTest(triangle, { x: 50, y: 30 })).toBe(false);
+  });
+});
+
+describe('scaleHitShape', () => {
+  it('grows a rect around its centre', () => {
+    expect(scaleHitShape(rect, 2)).toEqual({ kind: 'rect', x: -5, y: 15, width: 60, height: 20 });
+  });
+
+  it('grows a circle by its radius', () => {
+    expect(scaleHitShape(circle, 1.5)).toEqual({ kind: 'circle', cx: 50, cy: 50, r: 15 });
+  });
+
+  it('grows a polygon around the centre of its bounds', () => {
+    expect(scaleHitShape(triangle, 2)).toEqual({
+      kind: 'polygon',
+      points: [
+        { x: -20, y: -20 },
+        { x: -20, y: 60 },
+        { x: 60, y: 60 },
+      ],
+    });
+  });
+
+  it('is what hitsImpostor tests against when given a scale', () => {
+    const impostor = { id: '1', x: 10, y: 10, width: 10, height: 10, difficulty: 'easy', found: false } as const;
+    expect(hitsImpostor(impostor, { x: 22, y: 15 })).toBe(false);
+    expect(hitsImpostor(impostor, { x: 22, y: 15 }, 1, 1.5)).toBe(true);
+  });
+});
+
+describe('clientToScene', () => {
+  it('maps a pointer position to scene percentages', () => {
+    expect(clientToScene(150, 125, { left: 100, top: 100, width: 200, height: 100 })).toEqual({
+      x: 25,
+      y: 25,
+      aspect: 2,
+    });
+  });
+
+  it('reads positions inside a zoomed scene', () => {
+    // A 200x100 scene zoomed 2x and panned so its centre sits at the container's top left
+    const zoomed = { left: -200, top: -100, width: 400, height: 200 };
+    expect(clientToScene(0, 0, zoomed)).toEqual({ x: 50, y: 50, aspect: 2 });
+    expect(clientToScene(100, 50, zoomed)).toEqual({ x: 75, y: 75, aspect: 2 });
+  });
+});
+
+describe('zoomViewport', () => {
+  it('keeps the point under the cursor in place', () => {
+    expect(zoomViewport({ x: 0, y: 0, zoom: 1 }, 2, 0.5, 0.5)).toEqual({ x: 25, y: 25, zoom: 2 });
+    expect(zoomViewport({ x: 0, y: 0, zoom: 1 }, 2, 0, 0)).toEqual({ x: 0, y: 0, zoom: 2 });
+  });
+
+  it('clamps the zoom', () => {
+    expect(zoomViewport({ x: 0, y: 0, zoom: 4 }, 10).zoom).toBe(MAX_ZOOM);
+    expect(zoomViewport({ x: 25, y: 25, zoom: 2 }, 0.1)).toEqual({ x: 0, y: 0, zoom: MIN_ZOOM });
+  });
+
+  it('keeps the viewport inside the scene', () => {
+    expect(zoomViewport({ x: 0, y: 0, zoom: 1 }, 2, 1, 1)).toEqual({ x: 50, y: 50, zoom: 2 });
+  });
+});
+
+describe('panViewport', () => {
+  it('moves the scene with the drag', () => {
+    expect(panViewport({ x: 25, y: 25, zoom: 2 }, 0.1, -0.1)).toEqual({ x: 20, y: 30, zoom: 2 });
+  });
+
+  it('stops at the edges of the scene', () => {
+    expect(panViewport({ x: 25, y: 25, zoom: 2 }, 1, -1)).toEqual({ x: 0, y: 50, zoom: 2 });
+    expect(panViewport({ x: 0, y: 0, zoom: 1 }, -0.5, -0.5)).toEqual({ x: 0, y: 0, zoom: 1 });
+  });
+});
@@ -0,0 +1,155 @@
+import { Impostor } from './types/game';
+import { HitShape, SceneClick, ScenePoint, SceneRect, Viewport } from './types/geometry';
+
+export const DEFAULT_ASPECT = 1;
+const MIN_ASPECT = 0.25;
+const MAX_ASPECT = 4;
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 5;
+export const FULL_VIEWPORT: Viewport = { x: 0, y: 0, zoom: MIN_ZOOM };
+
+/** Keeps client-reported aspect ratios within what a real screen could produce. */
+export const clampAspect = (aspect: number) =>
+  Number.isFinite(aspect) ? Math.min(MAX_ASPECT, Math.max(MIN_ASPECT, aspect)) : DEFAULT_ASPECT;
+
+/**
+ * Maps a pointer position inside an element's bounding box to scene coordinates. The box may be
+ * scaled and translated by a zoomed viewport; getBoundingClientRect already accounts for that.
+ */
+export const clientToScene = (
+  clientX: number,
+  clientY: number,
+  rect: { left: number; top: number; width: number; height: number }
+): SceneClick => ({
+  x: ((clientX - rect.left) / rect.width) * 100,
+  y: ((clientY - rect.top) / rect.height) * 100,
+  aspect: rect.height > 0 ? rect.width / rect.height : DEFAULT_ASPECT,
+});
+
+export const getImpostorBounds = (impostor: Impostor): SceneRect => ({
+  x: impostor.x,
+  y: impostor.y,
+  width: impostor.width,
+  height: impostor.height,
+});
+
+export const getImpostorCenter = (impostor: Impostor): ScenePoint => ({
+  x: impostor.x + impostor.width / 2,
+  y: impostor.y + impostor.height / 2,
+});
+
+/** The shape a click has to land in; impostors without an explicit shape use their box. */
+export const getImpostorHitShape = (impostor: Impostor): HitShape =>
+  impostor.hitShape ?? { kind: 'rect', ...getImpostorBounds(impostor) };
+
+export const hitTest = (shape: HitShape, point: ScenePoint, aspect = DEFAULT_ASPECT): boolean => {
+  switch (shape.kind) {
+    case 'rect':
+      return (
+        point.x >= shape.x &&
+        point.x <= shape.x + shape.width &&
+        point.y >= shape.y &&
+        point.y <= shape.y + shape.height
+      );
+
+    case 'circle': {
+      // Convert the vertical distance into width-percent so the circle is round on screen
+      const dx = point.x - shape.cx;
+      const dy = (point.y - shape.cy) / clampAspect(aspect);
+      return dx * dx + dy * dy <= shape.r * shape.r;
+    }
+
+    case 'polygon': {
+      // Even-odd ray casting
+      let inside = false;
+      const { points } = shape;
+      for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i]!;
+        const b = points[j]!;
+        if (a.y > point.y !== b.y > point.y) {
+          const crossX = ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+          if (point.x < crossX) inside = !inside;
+        }
+      }
+      return inside;
+    }
+  }
+};
+
+/** Grows (or shrinks) a shape around its own centre. */
+export const scaleHitShape = (shape: HitShape, factor: number): HitShape => {
+  switch (shape.kind) {
+    case 'rect':
+      return {
+        kind: 'rect',
+        x: shape.x - (shape.width * (factor - 1)) / 2,
+        y: shape.y - (shape.height * (factor - 1)) / 2,
+        width: shape.width * factor,
+        height: shape.height * factor,
+      };
+
+    case 'circle':
+      return { ...shape, r: shape.r * factor };
+
+    case 'polygon': {
+      const xs = shape.points.map((p) => p.x);
+      const ys = shape.points.map((p) => p.y);
+      const cx = (Math.min(...xs) + Math.max(...xs)) / 2;
+      const cy = (Math.min(...ys) + Math.max(...ys)) / 2;
+      return {
+        kind: 'polygon',
+        points: shape.points.map((p) => ({ x: cx + (p.x - cx) * factor, y: cy + (p.y - cy) * factor })),
+      };
+    }
+  }
+};
+
+export const hitsImpostor = (impostor: Impostor, point: ScenePoint, aspect = DEFAULT_ASPECT, scale = 1) =>
+  hitTest(
+    scale === 1 ? getImpostorHitShape(impostor) : scaleHitShape(getImpostorHitShape(impostor), scale),
+    point,
+    aspect
+  );
+
+/** Keeps the viewport inside the scene and its zoom within limits. */
+export const clampViewport = ({ x, y, zoom }: Viewport): Viewport => {
+  const clampedZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+  const maxOffset = 100 - 100 / clampedZoom;
+  return {
+    x: Math.min(maxOffset, Math.max(0, x)),
+    y: Math.min(maxOffset, Math.max(0, y)),
+    zoom: clampedZoom,
+  };
+};
+
+export const getViewportRect = (viewport: Viewport): SceneRect => ({
+  x: viewport.x,
+  y: viewport.y,
+  width: 100 / viewport.zoom,
+  height: 100 / viewport.zoom,
+});
+
+/** Scene coordinates under a point given as a fraction (0-1) of the on-screen viewport. */
+export const viewportToScene = (viewport: Viewport, fx: number, fy: number): ScenePoint => ({
+  x: viewport.x + (fx * 100) / viewport.zoom,
+  y: viewport.y + (fy * 100) / viewport.zoom,
+});
+
+/** Zooms by `factor` while keeping the scene point under (fx, fy) of the screen where it is. */
+export const zoomViewport = (viewport: Viewport, factor: number, fx = 0.5, fy = 0.5): Viewport => {
+  const focus = viewportToScene(viewport, fx, fy);
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, viewport.zoom * factor));
+  return clampViewport({
+    x: focus.x - (fx * 100) / zoom,
+    y: focus.y - (fy * 100) / zoom,
+    zoom,
+  });
+};
+
+/** Moves the viewport by a distance given as a fraction of the on-screen viewport. */
+export const panViewport = (viewport: Viewport, dfx: number, dfy: number): Viewport =>
+  clampViewport({
+    ...viewport,
+    x: viewport.x - (dfx * 100) / viewport.zoom,
+    y: viewport.y - (dfy * 100) / viewport.zoom,
+  });
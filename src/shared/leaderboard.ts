@@ -0,0 +1,5 @@
+import { LeaderboardPeriod } from './types/leaderboard';
+
+export const LEADERBOARD_PERIODS: readonly LeaderboardPeriod[] = ['all-time', 'weekly'];
+export const DEFAULT_LEADERBOARD_PAGE = 10;
+export const MAX_LEADERBOARD_PAGE = 50;
@@ -0,0 +1,33 @@
+import { PowerUp } from './types/game';
+
+export const POWER_UPS: readonly PowerUp[] = ['hint', 'magnifier', 'radar', 'freeze'];
+
+/** Points a power-up costs when the player has no charges left. */
+export const POWER_UP_COSTS: Record<PowerUp, number> = {
+  hint: 30,
+  magnifier: 15,
+  radar: 20,
+  freeze: 40,
+};
+
+export const STARTING_CHARGES = 1;
+export const FINDS_PER_CHARGE = 3;
+
+export const MAGNIFIER_DURATION_MS = 15000;
+export const MAGNIFIER_SCALE = 1.6; // Hitboxes grow by this much while the lens is up
+export const FREEZE_DURATION_MS = 10000;
+export const MAX_FREEZES_PER_PLAYER = 1; // Per round, so nobody can stall the clock forever
+
+// Radar distances in scene percent from the ping to the nearest impostor still to be found
+const RADAR_HOT = 8;
+const RADAR_WARM = 20;
+
+export const getProximity = (distance: number): 'hot' | 'warm' | 'cold' =>
+  distance < RADAR_HOT ? 'hot' : distance < RADAR_WARM ? 'warm' : 'cold';
+
+export const POWER_UP_LABELS: Record<PowerUp, { emoji: string; name: string; description: string }> = {
+  hint: { emoji: '🧭', name: 'Hint', description: 'Shows which quarter of the crowd hides an impostor' },
+  magnifier: { emoji: '🔍', name: 'Magnifier', description: 'A zoom lens that also makes impostors easier to hit' },
+  radar: { emoji: '📡', name: 'Radar', description: 'Tap anywhere to learn how close the nearest impostor is' },
+  freeze: { emoji: '❄️', name: 'Freeze', description: 'Stops the round clock for a few seconds' },
+};
@@ -0,0 +1,20 @@
+import { Player } from './types/game';
+
+export const HEARTBEAT_INTERVAL_MS = 15000; // How often an open post reports in
+export const AWAY_AFTER_MS = 45000; // Three missed heartbeats
+export const HOST_IDLE_MS = 2 * 60 * 1000; // The host role moves on after this long without a request
+export const DROP_AFTER_MS = 5 * 60 * 1000; // Idle players give up their lobby seat
+
+export type Presence = 'online' | 'away';
+
+/** Anything the player sent counts, not just heartbeats, so a busy player never shows as away. */
+export const getIdleTime = (player: Pick<Player, 'joinedAt' | 'lastSeenAt'>, now: number) =>
+  Math.max(0, now - (player.lastSeenAt ?? player.joinedAt));
+
+export const getPresence = (player: Pick<Player, 'joinedAt' | 'lastSeenAt'>, now: number): Presence =>
+  getIdleTime(player, now) < AWAY_AFTER_MS ? 'online' : 'away';
+
+export const PRESENCE_LABELS: Record<Presence, { name: string; color: string }> = {
+  online: { name: 'Online', color: '#4ade80' },
+  away: { name: 'Away', color: '#6b7280' },
+};
@@ -0,0 +1,37 @@
+/**
+ * Small deterministic PRNG so the server and every client derive the same values from a seed.
+ * Not suitable for anything security related.
+ */
+export type Random = () => number;
+
+// xmur3 string hash, used to turn any seed string into a 32-bit starting state
+const hashSeed = (seed: string): number => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+};
+
+/** mulberry32: returns floats in [0, 1), the same sequence for the same seed. */
+export const createRandom = (seed: string): Random => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomBetween = (random: Random, min: number, max: number) =>
+  min + random() * (max - min);
+
+export const randomInt = (random: Random, min: number, max: number) =>
+  Math.floor(randomBetween(random, min, max + 1));
+
+/** A short, shareable seed such as `k3x9q2ab`. */
+export const generateSeed = () => Math.random().toString(36).slice(2, 10).padEnd(8, '0');
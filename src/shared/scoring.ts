@@ -0,0 +1,79 @@
+import { Difficulty } from './types/game';
+import { ScoreEntry, ScoreEvent, ScoreReason, ScoreRule, ScoringContext } from './types/scoring';
+
+export const DIFFICULTY_POINTS: Record<Difficulty, number> = {
+  easy: 10,
+  medium: 25,
+  hard: 50,
+};
+
+const TIME_BONUS_STEP = 10; // Seconds left on the clock per bonus point
+export const FIRST_FINDER_BONUS = 15; // Independent boards only, for beating everyone to an impostor
+const COMBO_START = 3; // Finds in a row before streaks start paying out
+const COMBO_POINTS = 5; // Per find past the start, growing with the streak
+const MAX_COMBO_STEPS = 5;
+
+export const difficultyPoints: ScoreRule = (event) =>
+  event.kind === 'find' ? { reason: 'difficulty', points: DIFFICULTY_POINTS[event.difficulty], at: event.at } : null;
+
+/** Faster finds are worth more: a point for every ten seconds still on the clock. */
+export const timeBonus: ScoreRule = (event, context) => {
+  if (event.kind !== 'find') return null;
+
+  const elapsed = (event.at - context.startedAt) / 1000;
+  const points = Math.max(0, Math.floor((context.timeLimit - elapsed) / TIME_BONUS_STEP));
+  return { reason: 'time-bonus', points, at: event.at };
+};
+
+export const firstFinderBonus: ScoreRule = (event) =>
+  event.kind === 'find' && event.firstFinder ? { reason: 'first-finder', points: FIRST_FINDER_BONUS, at: event.at } : null;
+
+export const comboStreak: ScoreRule = (event, context) => {
+  if (event.kind !== 'find') return null;
+
+  const combo = context.streak + 1;
+  if (combo < COMBO_START) return null;
+  return { reason: 'combo', points: COMBO_POINTS * Math.min(combo - COMBO_START + 1, MAX_COMBO_STEPS), at: event.at };
+};
+
+/** Misses cost points, but never take a score below zero. */
+export const missPenalty: ScoreRule = (event, context) =>
+  event.kind === 'miss' ? { reason: 'miss', points: -Math.min(context.missPenalty, context.score), at: event.at } : null;
+
+export const DEFAULT_SCORE_RULES: readonly ScoreRule[] = [
+  difficultyPoints,
+  timeBonus,
+  firstFinderBonus,
+  comboStreak,
+  missPenalty,
+];
+
+/** Runs every rule over the event. Entries worth nothing are left off the ledger. */
+export const scoreEvent = (
+  event: ScoreEvent,
+  context: ScoringContext,
+  rules: readonly ScoreRule[] = DEFAULT_SCORE_RULES
+): ScoreEntry[] =>
+  rules.map((rule) => rule(event, context)).filter((entry): entry is ScoreEntry => !!entry && entry.points !== 0);
+
+export const getStreakAfter = (event: ScoreEvent, streak: number) => (event.kind === 'find' ? streak + 1 : 0);
+
+export const getLedgerTotal = (ledger: readonly ScoreEntry[]) => ledger.reduce((total, entry) => total + entry.points, 0);
+
+export const SCORE_REASON_LABELS: Record<ScoreReason, { emoji: string; name: string }> = {
+  difficulty: { emoji: '👽', name: 'Impostors found' },
+  'time-bonus': { emoji: '⏱️', name: 'Speed bonus' },
+  'first-finder': { emoji: '🥇', name: 'Found first' },
+  combo: { emoji: '🔥', name: 'Streak bonus' },
+  miss: { emoji: '🧑', name: 'Misses' },
+  'power-up': { emoji: '⚡', name: 'Power-ups' },
+};
+
+/** The ledger folded into one line per reason, in the order the labels list them. */
+export const summarizeLedger = (ledger: readonly ScoreEntry[]) =>
+  (Object.keys(SCORE_REASON_LABELS) as ScoreReason[])
+    .map((reason) => {
+      const entries = ledger.filter((entry) => entry.reason === reason);
+      return { reason, count: entries.length, points: getLedgerTotal(entries) };
+    })
+    .filter((line) => line.count > 0);
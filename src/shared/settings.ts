@@ -0,0 +1,26 @@
+import { Difficulty, DifficultyMix, GameMode, GameSettings } from './types/game';
+
+export const GAME_MODES: readonly GameMode[] = ['race', 'independent', 'coop'];
+export const DIFFICULTIES: readonly Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const DEFAULT_DIFFICULTY_MIX: DifficultyMix = { easy: 3, medium: 4, hard: 5 };
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  mode: 'race',
+  timeLimit: 300, // 5 minutes
+  minPlayers: 1,
+  maxPlayers: 20,
+  difficultyMix: DEFAULT_DIFFICULTY_MIX,
+  missPenalty: 5,
+};
+
+// Bounds the server enforces on whatever the host picks
+export const MIN_TIME_LIMIT = 30;
+export const MAX_TIME_LIMIT = 900;
+export const MAX_PLAYERS = 20;
+export const MIN_IMPOSTORS = 1;
+export const MAX_IMPOSTORS = 20; // Level generation runs out of room beyond this
+export const MAX_MISS_PENALTY = 50;
+
+export const getImpostorCount = (mix: DifficultyMix) =>
+  DIFFICULTIES.reduce((total, difficulty) => total + mix[difficulty], 0);
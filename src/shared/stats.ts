@@ -0,0 +1,6 @@
+/** Share of clicks that hit an impostor, from 0 to 1, or undefined before the first click. */
+export const getAccuracy = (hits: number, misses: number): number | undefined =>
+  hits + misses > 0 ? hits / (hits + misses) : undefined;
+
+export const formatAccuracy = (accuracy: number | undefined) =>
+  accuracy === undefined ? '–' : `${Math.round(accuracy * 100)}%`;
@@ -0,0 +1,37 @@
+import { Team, TeamStanding } from './types/game';
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 4;
+export const MAX_TEAM_NAME_LENGTH = 20;
+
+export const TEAM_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308'];
+export const DEFAULT_TEAM_NAMES = ['Red', 'Blue', 'Green', 'Gold'];
+
+type TeamMember = { id: string; score: number; teamId?: string | undefined };
+
+/** The team with the fewest members; ties go to the team listed first. */
+export const getSmallestTeam = (teams: Team[], players: TeamMember[]): Team | undefined =>
+  teams.reduce<Team | undefined>((smallest, team) => {
+    if (!smallest) return team;
+    const size = (id: string) => players.filter((player) => player.teamId === id).length;
+    return size(team.id) < size(smallest.id) ? team : smallest;
+  }, undefined);
+
+/** Deals players out round-robin so team sizes differ by at most one. */
+export const balanceTeams = (teams: Team[], playerIds: string[]): Record<string, string> =>
+  Object.fromEntries(playerIds.map((playerId, i) => [playerId, teams[i % teams.length]!.id]));
+
+/** Team scores are never stored; they are always the sum of the members' own scores. */
+export const getTeamStandings = (teams: Team[], players: TeamMember[]): TeamStanding[] =>
+  teams
+    .map((team) => {
+      const members = players.filter((player) => player.teamId === team.id);
+      return {
+        teamId: team.id,
+        name: team.name,
+        color: team.color,
+        score: members.reduce((total, player) => total + player.score, 0),
+        players: members.length,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
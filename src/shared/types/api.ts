@@ -0,0 +1,90 @@
+import { ApiErrorCode } from './errors';
+import { GameEvent, GameView, Impostor, PowerUpEffect } from './game';
+import { SubredditLeaderboard } from './leaderboard';
+import { GameReplay } from './replay';
+import { PlayerStats } from './stats';
+
+export interface ApiResponse {
+  status: 'success' | 'error';
+  message?: string;
+}
+
+/** What every failed call answers with. Throttled clicks also say how long to wait, in ms. */
+export interface ApiErrorResponse extends ApiResponse {
+  status: 'error';
+  code: ApiErrorCode;
+  message: string;
+  retryAfter?: number;
+}
+
+export interface HealthResponse extends ApiResponse {
+  timestamp: string;
+  development: boolean;
+  context: Record<string, unknown> | null;
+}
+
+/** Anything that changes the game answers with the caller's view of it. */
+export interface GameResponse extends ApiResponse {
+  gameState: GameView;
+}
+
+export interface GameStateResponse extends GameResponse {
+  playerId: string;
+}
+
+export interface JoinResponse extends GameStateResponse {
+  spectating: boolean; // The game was full, so the caller is watching instead
+}
+
+export interface FindImpostorResponse extends GameResponse {
+  found: boolean;
+  impostor?: Impostor | undefined;
+  score: number;
+  penalty: number; // Points lost to a miss
+}
+
+export interface PowerUpResponse extends GameResponse {
+  effect: PowerUpEffect;
+}
+
+export interface LeaderboardResponse extends ApiResponse {
+  leaderboard: SubredditLeaderboard;
+}
+
+export interface StatsResponse extends ApiResponse {
+  stats: PlayerStats;
+}
+
+export interface ReplayResponse extends ApiResponse {
+  replay: GameReplay;
+}
+
+export interface EventsResponse extends ApiResponse {
+  events: GameEvent[];
+  cursor: number; // Pass back as `since` on the next poll
+}
+
+/** The successful response of each route in `API_ROUTES`. */
+export interface ApiResponses {
+  health: HealthResponse;
+  join: JoinResponse;
+  spectate: JoinResponse;
+  queue: GameResponse;
+  leave: GameResponse;
+  kick: GameResponse;
+  heartbeat: ApiResponse;
+  gameState: GameStateResponse;
+  startGame: GameResponse;
+  rematch: GameResponse;
+  findImpostor: FindImpostorResponse;
+  settings: GameResponse;
+  teams: GameResponse;
+  balanceTeams: GameResponse;
+  joinTeam: GameResponse;
+  powerUp: PowerUpResponse;
+  leaderboard: LeaderboardResponse;
+  myStats: StatsResponse;
+  userStats: StatsResponse;
+  replay: ReplayResponse;
+  events: EventsResponse;
+}
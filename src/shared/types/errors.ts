@@ -0,0 +1,42 @@
+/**
+ * Why the server turned a request away. Codes are stable, so clients can react to a specific
+ * failure; the message that comes with them is only for showing to the player.
+ */
+export type ApiErrorCode =
+  // The request itself
+  | 'invalid-request'
+  | 'not-logged-in'
+  | 'not-found'
+  | 'throttled'
+  | 'server-error'
+  // Who is asking
+  | 'game-not-found'
+  | 'kicked'
+  | 'not-host'
+  | 'not-in-game'
+  | 'spectating' // Watching, so can't play
+  | 'already-playing'
+  | 'not-spectating'
+  | 'player-not-found'
+  | 'cannot-kick-self'
+  // Where the round is at
+  | 'already-started'
+  | 'not-enough-players'
+  | 'round-not-running'
+  | 'round-not-over'
+  | 'replay-unavailable'
+  // Settings, teams and power-ups
+  | 'invalid-settings'
+  | 'teams-in-coop'
+  | 'no-teams'
+  | 'no-such-team'
+  | 'needs-target'
+  | 'nothing-left'
+  | 'freeze-used'
+  | 'not-enough-points';
+
+/** A request the game refused, with a message fit to show the player. */
+export interface GameRejection {
+  code: ApiErrorCode;
+  message: string;
+}
@@ -1,22 +1,65 @@
+import { HitShape, ScenePoint, SceneRect } from './geometry';
+import { ScoreEntry } from './scoring';
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+/** How many impostors of each difficulty a level contains. */
+export type DifficultyMix = Record<Difficulty, number>;
+
 export interface Impostor {
   id: string;
   x: number;
   y: number;
   width: number;
   height: number;
-  difficulty: 'easy' | 'medium' | 'hard';
+  difficulty: Difficulty;
+  hitShape?: HitShape; // Defaults to the impostor's box
   found: boolean;
   foundBy?: string;
   foundAt?: number;
 }
 
+export type PowerUp = 'hint' | 'magnifier' | 'radar' | 'freeze';
+
+export interface PowerUpUse {
+  powerUp: PowerUp;
+  at: number;
+  cost: number; // Points spent, 0 when a charge paid for it
+}
+
+/** What a power-up did, returned only to the player who used it. */
+export type PowerUpEffect =
+  | { powerUp: 'hint'; area: SceneRect } // Quadrant holding an impostor this player still needs
+  | { powerUp: 'magnifier'; until: number }
+  | { powerUp: 'radar'; at: ScenePoint; proximity: 'hot' | 'warm' | 'cold' }
+  | { powerUp: 'freeze'; until: number };
+
 export interface Player {
   id: string;
   username: string;
   score: number;
+  ledger: ScoreEntry[]; // How the score came about, entry by entry
+  streak: number; // Finds in a row since the last miss
   foundImpostors: string[];
+  misses: number;
+  charges: number; // Free power-ups, earned by finding impostors
+  powerUps: PowerUpUse[];
+  magnifierUntil?: number;
+  teamId?: string;
+  joinedAt: number; // When they took their seat; the longest-present player inherits the host role
+  lastSeenAt?: number; // Last request they made
+  leftAt?: number; // Left after the round ended; kept for the results until the rematch
   timeStarted?: number;
   timeCompleted?: number;
+  recentClicks?: number[]; // Click timestamps inside the current burst window
+  cooldownUntil?: number; // Clicks are rejected until then after a burst
+}
+
+/** Someone watching without playing. Unlike players there is no cap on how many there can be. */
+export interface Spectator {
+  id: string;
+  username: string;
+  queuedAt?: number; // Set while waiting for a seat in the next round
 }
 
 export interface LeaderboardEntry {
@@ -26,22 +69,146 @@ export interface LeaderboardEntry {
   timeCompleted?: number;
 }
 
+export interface Team {
+  id: string;
+  name: string; // Usually a flair, set by the host
+  color: string;
+}
+
+/** A team's result: the sum of its members' scores. */
+export interface TeamStanding {
+  teamId: string;
+  name: string;
+  color: string;
+  score: number;
+  players: number;
+}
+
+/**
+ * - race: impostors are shared and only the first finder scores each one
+ * - independent: every player hunts all impostors on their own board
+ * - coop: impostors are shared and everyone adds to one team score
+ */
+export type GameMode = 'race' | 'independent' | 'coop';
+
 export interface GameState {
   id: string;
+  subredditId: string; // Whose leaderboards the round counts towards
+  mode: GameMode;
+  seed: string; // Replaying a seed with the same mix rebuilds the same level
+  round: number; // Counts up from 1 with every rematch on the post
+  difficultyMix: DifficultyMix;
   phase: 'waiting' | 'playing' | 'ended';
   players: Record<string, Player>;
+  spectators?: Record<string, Spectator>;
   impostors: Impostor[];
   host: string;
-  timeLimit: number;
+  kicked?: string[]; // Users the host removed, who may not come back to this post
+  timeLimit: number; // Seconds
+  minPlayers: number; // Needed before the host can start
+  maxPlayers: number;
+  missPenalty: number; // Points lost per click that hits nobody
   timeLeft?: number;
+  frozenUntil?: number; // The round clock is stopped until then
+  frozenMs?: number; // Total freeze time added to the round so far
   gameStartTime?: number;
   gameEndTime?: number;
   winner?: string;
+  teamScore?: number; // Co-op only
+  teams?: Team[]; // Players compete as teams when set
+  winningTeam?: string;
   leaderboard: LeaderboardEntry[];
+  teamLeaderboard?: TeamStanding[];
 }
 
-export interface GameResult {
-  score: number;
-  time: number;
-  completedAt: number;
-}
\ No newline at end of file
+/** A single-player round kept entirely in the webview, scored by the same rules as online rounds. */
+export interface SoloGameState extends Pick<Player, 'score' | 'ledger' | 'streak' | 'misses'> {
+  phase: GameState['phase'];
+  seed: string;
+  timeLeft: number; // Seconds
+  impostors: Impostor[];
+  startTime?: number;
+  endTime?: number;
+}
+
+/** What the host can change in the lobby before starting. The seed is fixed once the game exists. */
+export type GameSettings = Pick<
+  GameState,
+  'mode' | 'timeLimit' | 'minPlayers' | 'maxPlayers' | 'difficultyMix' | 'missPenalty'
+>;
+
+/** Where to draw an alien in the crowd. Carries no id, hitbox or difficulty. */
+export interface ImpostorSprite {
+  key: string;
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/** A player as others see them: their progress, but not which impostors they found. */
+export interface PlayerView
+  extends Omit<Player, 'foundImpostors' | 'ledger' | 'recentClicks' | 'cooldownUntil'> {
+  foundCount: number;
+  foundImpostors?: string[]; // Only on the viewer's own entry
+  ledger?: ScoreEntry[]; // Likewise; its timing would hint at where others are finding impostors
+}
+
+/**
+ * GameState as sent to one viewer. Impostors only appear with their geometry once that viewer may
+ * see them (found on their board, or the round is over); until then there is just a sprite to draw.
+ */
+export interface GameView extends Omit<GameState, 'seed' | 'players' | 'impostors'> {
+  seed?: string; // Only sent once the round is over
+  sceneSeed: string; // Drives the decorative crowd without giving away the level seed
+  sprites: ImpostorSprite[];
+  impostors: Impostor[];
+  players: Record<string, PlayerView>;
+}
+
+/** Compact updates broadcast on the post's realtime channel whenever the game changes. */
+export type GameEvent =
+  | { type: 'player-joined'; player: PlayerView } // Also takes a seated spectator off the watch list
+  | { type: 'spectator-updated'; spectator: Spectator }
+  | { type: 'player-left'; playerId: string; at: number; kicked?: boolean } // Players and spectators alike
+  | { type: 'host-changed'; host: string }
+  | {
+      type: 'impostor-found';
+      playerId: string;
+      impostorId: string;
+      impostor?: Impostor; // Omitted on independent boards, where a find is private
+      at: number;
+      score: number;
+      foundCount: number;
+      teamScore?: number;
+      timeCompleted?: number;
+    }
+  | {
+      type: 'impostor-missed';
+      playerId: string;
+      at: number;
+      score: number;
+      misses: number;
+      teamScore?: number;
+    }
+  | {
+      type: 'power-up-used';
+      playerId: string;
+      powerUp: PowerUp;
+      at: number;
+      cost: number;
+      score: number;
+      charges: number;
+      teamScore?: number;
+      frozenUntil?: number;
+    }
+  | { type: 'settings-changed'; settings: GameSettings; sprites: ImpostorSprite[] }
+  | { type: 'phase-changed'; phase: GameState['phase']; at: number }
+  | { type: 'round-started'; round: number } // A rematch replaced the whole game; refetch it
+  | { type: 'teams-changed'; teams: Team[]; assignments: Record<string, string> }
+  | {
+      type: 'leaderboard-updated';
+      leaderboard: LeaderboardEntry[];
+      winner?: string;
+      teamLeaderboard?: TeamStanding[];
+      winningTeam?: string;
+    };
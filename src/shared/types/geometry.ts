@@ -0,0 +1,33 @@
+/**
+ * Scene coordinates are percentages (0-100): x of the scene's width, y of its height. Because a
+ * scene is rarely square, 1% across is not 1% down, so round shapes take the scene's aspect ratio
+ * (width / height in pixels) into account.
+ *
+ * Anchor convention: an impostor's x/y is the TOP-LEFT corner of its box, and width/height extend
+ * right and down. Renderers that draw from the middle must use `getImpostorCenter` in `../geometry`.
+ */
+export interface ScenePoint {
+  x: number;
+  y: number;
+}
+
+/** A click in scene coordinates together with the aspect ratio it was made at. */
+export interface SceneClick extends ScenePoint {
+  aspect: number;
+}
+
+export interface SceneRect extends ScenePoint {
+  width: number;
+  height: number;
+}
+
+export type HitShape =
+  | ({ kind: 'rect' } & SceneRect)
+  // Radius is measured in percent of the scene width
+  | { kind: 'circle'; cx: number; cy: number; r: number }
+  | { kind: 'polygon'; points: ScenePoint[] };
+
+/** The part of the scene on screen: `x`/`y` is its top-left corner and it spans 100 / zoom percent. */
+export interface Viewport extends ScenePoint {
+  zoom: number;
+}
@@ -0,0 +1,18 @@
+/** Subreddit-wide rankings that outlive individual games. */
+export type LeaderboardPeriod = 'all-time' | 'weekly';
+
+export interface RankedPlayer {
+  rank: number; // 1-based
+  userId: string;
+  username: string;
+  score: number;
+}
+
+export interface SubredditLeaderboard {
+  period: LeaderboardPeriod;
+  weekStart?: string; // Weekly boards only, as YYYY-MM-DD (Monday, UTC)
+  entries: RankedPlayer[];
+  offset: number;
+  total: number;
+  viewer?: RankedPlayer; // The requesting player's own standing, if they have one
+}
@@ -0,0 +1,26 @@
+import { GameMode, Impostor, ImpostorSprite } from './game';
+
+/** One `/api/find-impostor` call as it was judged. */
+export interface ReplayClick {
+  playerId: string;
+  x: number;
+  y: number;
+  aspect: number;
+  at: number;
+  found: boolean;
+  impostorId?: string; // Hits only
+}
+
+/** Everything needed to play a finished round back on the crowd scene. */
+export interface GameReplay {
+  gameId: string;
+  round: number;
+  mode: GameMode;
+  sceneSeed: string;
+  sprites: ImpostorSprite[];
+  impostors: Impostor[];
+  players: Record<string, string>; // Player id to username
+  startedAt: number;
+  endedAt: number;
+  clicks: ReplayClick[];
+}
@@ -0,0 +1,27 @@
+import { Difficulty } from './game';
+
+export type ScoreReason = 'difficulty' | 'time-bonus' | 'first-finder' | 'combo' | 'miss' | 'power-up';
+
+/** One line of a player's score sheet. A player's entries always add up to their score. */
+export interface ScoreEntry {
+  reason: ScoreReason;
+  points: number; // Negative for penalties and points spent
+  at: number;
+}
+
+/** Something a player did that the scoring rules may reward or punish. */
+export type ScoreEvent =
+  | { kind: 'find'; at: number; difficulty: Difficulty; firstFinder: boolean }
+  | { kind: 'miss'; at: number };
+
+/** Where the player stood when the event happened. */
+export interface ScoringContext {
+  startedAt: number; // When the player's clock started
+  timeLimit: number; // Seconds
+  missPenalty: number;
+  score: number; // Before the event
+  streak: number; // Finds in a row before the event, reset by a miss
+}
+
+/** Turns an event into at most one ledger entry; rules that don't apply return null. */
+export type ScoreRule = (event: ScoreEvent, context: ScoringContext) => ScoreEntry | null;
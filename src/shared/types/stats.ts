@@ -0,0 +1,15 @@
+import { Difficulty } from './game';
+
+/** A player's record across every online round they have finished. */
+export interface PlayerStats {
+  userId: string;
+  username: string;
+  gamesPlayed: number;
+  wins: number;
+  found: Record<Difficulty, number>;
+  misses: number;
+  fastestClear?: number; // Milliseconds from joining the round to finding every impostor
+  currentStreak: number; // Wins in a row
+  bestStreak: number;
+  lastPlayedAt?: number;
+}
@@ -0,0 +1,104 @@
+/** Either the checked (and possibly cleaned up) value, or why it was turned away. */
+export type Validated<T> = { value: T; error?: undefined } | { error: string };
+
+/** Checks untrusted input, e.g. a request body, and narrows it to `T`. */
+export type Validator<T> = (input: unknown) => Validated<T>;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+const isWholeNumberBetween = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+// Query strings only carry text, so numbers sent there are read back before checking
+const toNumber = (input: unknown) => (typeof input === 'string' && input.trim() !== '' ? Number(input) : input);
+
+/** Trimmed text of `min`-`max` characters, optionally matching a pattern. */
+export const text =
+  (message: string, { min = 1, max = Infinity, pattern }: { min?: number; max?: number; pattern?: RegExp } = {}): Validator<string> =>
+  (input) => {
+    if (typeof input !== 'string') return { error: message };
+    const value = input.trim();
+    if (value.length < min || value.length > max || (pattern && !pattern.test(value))) return { error: message };
+    return { value };
+  };
+
+export const wholeNumber =
+  (message: string, min = 0, max = Number.MAX_SAFE_INTEGER): Validator<number> =>
+  (input) => {
+    const value = toNumber(input);
+    return isWholeNumberBetween(value, min, max) ? { value } : { error: message };
+  };
+
+export const finiteNumber =
+  (message: string): Validator<number> =>
+  (input) =>
+    typeof input === 'number' && Number.isFinite(input) ? { value: input } : { error: message };
+
+export const flag =
+  (message: string): Validator<boolean> =>
+  (input) =>
+    typeof input === 'boolean' ? { value: input } : { error: message };
+
+export const oneOf =
+  <T extends string>(values: readonly T[], message: string): Validator<T> =>
+  (input) =>
+    values.includes(input as T) ? { value: input as T } : { error: message };
+
+/** Lets the field be left out; `undefined` passes through unchecked. */
+export const optional =
+  <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (input) =>
+    input === undefined ? { value: undefined } : validator(input);
+
+export const listOf =
+  <T>(item: Validator<T>, message: string): Validator<T[]> =>
+  (input) => {
+    if (!Array.isArray(input)) return { error: message };
+
+    const value: T[] = [];
+    for (const entry of input) {
+      const result = item(entry);
+      if (result.error !== undefined) return result;
+      value.push(result.value);
+    }
+    return { value };
+  };
+
+/** Adds a check across the whole value; `check` returns an error message or nothing. */
+export const refine =
+  <T>(validator: Validator<T>, check: (value: T) => string | undefined): Validator<T> =>
+  (input) => {
+    const result = validator(input);
+    if (result.error !== undefined) return result;
+    const error = check(result.value);
+    return error === undefined ? result : { error };
+  };
+
+type Shape = Record<string, Validator<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+
+export type ShapeOf<S extends Shape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+};
+
+/**
+ * Checks each field of an object, reporting the first one that fails. Fields not in the shape
+ * are dropped, as are optional ones left out, so the result only holds what was checked.
+ */
+export const object =
+  <S extends Shape>(shape: S, message = 'Request body must be an object'): Validator<ShapeOf<S>> =>
+  (input) => {
+    // A POST with no body at all counts as an empty one
+    const fields = input ?? {};
+    if (typeof fields !== 'object' || Array.isArray(fields)) return { error: message };
+
+    const value: Record<string, unknown> = {};
+    for (const [key, validator] of Object.entries(shape)) {
+      const result = validator((fields as Record<string, unknown>)[key]);
+      if (result.error !== undefined) return result;
+      if (result.value !== undefined) value[key] = result.value;
+    }
+    return { value: value as ShapeOf<S> };
+  };